@@ -0,0 +1,346 @@
+#!/usr/bin/env node
+// Reference sync server for Tempo's REST backend (src/services/rest.ts).
+// No dependencies; everything is kept in one JSON file.
+//
+//   node server/sync-server.mjs add-user <name>   create a user and print their token
+//   node server/sync-server.mjs                   serve on PORT (default 8787)
+//
+// Environment: PORT, TEMPO_SYNC_DATA (data file, default ./tempo-sync-data.json),
+// TEMPO_SYNC_ORIGIN (allowed CORS origin, default *).
+import { createServer } from 'node:http';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const DATA_FILE = process.env.TEMPO_SYNC_DATA || 'tempo-sync-data.json';
+const PORT = Number(process.env.PORT) || 8787;
+const ORIGIN = process.env.TEMPO_SYNC_ORIGIN || '*';
+const MAX_BODY = 5 * 1024 * 1024;
+
+// rev is a server-wide counter bumped on every change; clients pull with the last rev
+// they saw as their cursor, so device clocks never matter for what counts as "new"
+const load = () =>
+  existsSync(DATA_FILE)
+    ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+    : { rev: 0, users: {}, sessions: {}, deleted: {}, docs: {}, vaults: {} };
+
+// Maps keyed by ids and keys that clients send have no prototype, so no key reaches Object.prototype
+const dict = (entries = {}) => Object.assign(Object.create(null), entries);
+
+const data = load();
+data.docs ||= {}; // data files from before settings and diary days were synced
+data.vaults ||= {}; // ... and from before encrypted sync
+for (const store of [data.sessions, data.deleted, data.docs]) {
+  for (const userId of Object.keys(store)) store[userId] = dict(store[userId]);
+}
+Object.values(data.docs).forEach((mine) => Object.values(mine).forEach((e) => { e.fields = dict(e.fields); }));
+
+const save = () => {
+  const tmp = `${DATA_FILE}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data));
+  renameSync(tmp, DATA_FILE);
+};
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+if (process.argv[2] === 'add-user') {
+  const name = process.argv.slice(3).join(' ').trim();
+  if (!name) {
+    console.error('Usage: node server/sync-server.mjs add-user <name>');
+    process.exit(1);
+  }
+  const token = randomBytes(24).toString('base64url');
+  data.users[randomUUID()] = { name, tokenHash: hashToken(token) };
+  save();
+  console.log(`Token for ${name}: ${token}`);
+  process.exit(0);
+}
+
+const userFor = (req) => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  if (!match) return null;
+  const tokenHash = hashToken(match[1]);
+  const entry = Object.entries(data.users).find(([, u]) => u.tokenHash === tokenHash);
+  return entry ? { id: entry[0], name: entry[1].name } : null;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ORIGIN,
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error('Body too large'));
+        req.destroy();
+      } else chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const RESERVED_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+const isKey = (k) => typeof k === 'string' && k !== '' && !RESERVED_KEYS.has(k);
+
+const isSession = (s) => s && typeof s === 'object' && isKey(s.id) && typeof s.updatedAt === 'number';
+
+// Sessions changed after `since` plus ids deleted after it; everything without a cursor
+const pull = (userId, since) => {
+  const sessions = Object.values(data.sessions[userId] || {})
+    .filter((e) => since === null || e.rev > since)
+    .map((e) => e.session);
+  const deleted = since === null
+    ? []
+    : Object.entries(data.deleted[userId] || {}).filter(([, rev]) => rev > since).map(([id]) => id);
+  return { sessions, deleted, cursor: String(data.rev) };
+};
+
+// Keep the copy changed last, like the clients do
+const push = (userId, sessions) => {
+  const mine = (data.sessions[userId] ||= dict());
+  const gone = (data.deleted[userId] ||= dict());
+  for (const s of sessions.filter(isSession)) {
+    const current = mine[s.id];
+    if (current && current.session.updatedAt > s.updatedAt) continue;
+    mine[s.id] = { rev: ++data.rev, session: s };
+    delete gone[s.id];
+  }
+  save();
+  return { cursor: String(data.rev) };
+};
+
+const remove = (userId, ids) => {
+  const mine = data.sessions[userId] || {};
+  const gone = (data.deleted[userId] ||= dict());
+  for (const id of ids.filter(isKey)) {
+    delete mine[id];
+    gone[id] = ++data.rev;
+  }
+  save();
+  return { cursor: String(data.rev) };
+};
+
+// Settings, profiles and diary days: every field carries the time it was changed and
+// the later one wins (src/utils/fieldSync.ts); equal times compare the values
+const isDoc = (d) => d && typeof d === 'object' && isKey(d.key) && d.fields && typeof d.fields === 'object';
+const isField = (f) => f && typeof f === 'object' && typeof f.at === 'number' && 'value' in f;
+
+const newerField = (a, b) => {
+  if (!a || !b) return a || b;
+  if (a.at !== b.at) return a.at > b.at ? a : b;
+  return (JSON.stringify(a.value) ?? '') >= (JSON.stringify(b.value) ?? '') ? a : b;
+};
+
+const pullDocs = (userId, since) => ({
+  docs: Object.values(data.docs[userId] || {})
+    .filter((e) => since === null || e.rev > since)
+    .map((e) => ({ key: e.key, fields: e.fields })),
+  cursor: String(data.rev),
+});
+
+const pushDocs = (userId, docs) => {
+  const mine = (data.docs[userId] ||= dict());
+  for (const d of docs.filter(isDoc)) {
+    const current = mine[d.key];
+    const fields = dict(current ? current.fields : {});
+    let changed = !current;
+    for (const [name, field] of Object.entries(d.fields)) {
+      if (!isField(field)) continue;
+      const winner = newerField(fields[name], { value: field.value, at: field.at });
+      if (winner !== fields[name]) {
+        fields[name] = winner;
+        changed = true;
+      }
+    }
+    if (changed) mine[d.key] = { rev: ++data.rev, key: d.key, fields };
+  }
+  save();
+  return { cursor: String(data.rev) };
+};
+
+// Docs left behind when a user turns on encryption; other devices ignore them from then on
+const removeDocs = (userId, keys) => {
+  const mine = data.docs[userId] || {};
+  for (const key of keys.filter(isKey)) delete mine[key];
+  save();
+  return {};
+};
+
+// The wrapped key for encrypted sync; the server never sees the passphrase or the key
+const isVault = (v) => v && typeof v === 'object' && ['keyId', 'salt', 'wrapped'].every((k) => typeof v[k] === 'string') &&
+  typeof v.iterations === 'number' && typeof v.changedAt === 'number';
+
+const putVault = (userId, vault, expected) => {
+  const current = data.vaults[userId];
+  if ((current ? current.changedAt : null) !== expected) return { saved: false };
+  data.vaults[userId] = { keyId: vault.keyId, salt: vault.salt, iterations: vault.iterations, wrapped: vault.wrapped, changedAt: vault.changedAt };
+  save();
+  return { saved: true };
+};
+
+// The live timer and focus rooms are only kept in memory. Their GETs take ?after=<rev>
+// and wait until the record changed after `rev` (long polling) or POLL_WAIT_MS passed.
+const POLL_WAIT_MS = 25_000;
+const ROOM_IDLE_MS = 12 * 60 * 60_000; // rooms nobody reported to for this long are dropped
+const live = {};      // userId -> { rev, timer, command }
+const rooms = dict(); // code -> { rev, room }
+const waiters = {};   // record key -> Set of callbacks
+
+const changed = (key) => {
+  const pending = waiters[key] || new Set();
+  delete waiters[key];
+  pending.forEach((wake) => wake());
+};
+
+const longPoll = (res, key, after, current) => {
+  const reply = () => send(res, 200, current());
+  if (after === null || current().rev !== after) return reply();
+  const wake = () => {
+    clearTimeout(timer);
+    reply();
+  };
+  const timer = setTimeout(() => {
+    waiters[key]?.delete(wake);
+    reply();
+  }, POLL_WAIT_MS);
+  (waiters[key] ||= new Set()).add(wake);
+  res.on('close', () => {
+    clearTimeout(timer);
+    waiters[key]?.delete(wake);
+  });
+};
+
+const liveOf = (userId) => (live[userId] ||= { rev: 0, timer: null, command: null });
+
+const publishLive = (userId, update) => {
+  const record = liveOf(userId);
+  if ('timer' in update) record.timer = update.timer ?? null;
+  if ('command' in update) record.command = update.command ?? null;
+  record.rev += 1;
+  changed(`live:${userId}`);
+  return { rev: record.rev };
+};
+
+const isRoom = (r) => r && typeof r === 'object' && typeof r.code === 'string' && /^[A-Z0-9]{4,12}$/.test(r.code) &&
+  typeof r.startedAt === 'number' && r.config && typeof r.config === 'object';
+
+const lastActivity = ({ room }) => Math.max(room.startedAt, ...Object.values(room.members).map((m) => m.seenAt));
+
+const createRoom = (userId, room) => {
+  const now = Date.now();
+  for (const [code, record] of Object.entries(rooms)) {
+    if (now - lastActivity(record) > ROOM_IDLE_MS) delete rooms[code];
+  }
+  if (rooms[room.code]) return { created: false };
+  rooms[room.code] = {
+    rev: 1,
+    room: { code: room.code, name: String(room.name || 'Room'), config: room.config, startedAt: room.startedAt, createdBy: userId, members: {} },
+  };
+  return { created: true };
+};
+
+const roomOf = (code) => rooms[code] || { rev: 0, room: null };
+
+const isMember = (m) => m && typeof m === 'object' && typeof m.name === 'string' && ['focus', 'break', 'paused'].includes(m.status);
+
+const setRoomMember = (userId, code, member) => {
+  const record = rooms[code];
+  if (!record) return false;
+  if (member === null) delete record.room.members[userId];
+  else record.room.members[userId] = { name: member.name.slice(0, 60), status: member.status, seenAt: Date.now() };
+  record.rev += 1;
+  changed(`room:${code}`);
+  return true;
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    const url = new URL(req.url || '/', 'http://localhost');
+    const user = userFor(req);
+    if (!user) return send(res, 401, { error: 'Unknown or missing token' });
+
+    if (req.method === 'GET' && url.pathname === '/api/me') return send(res, 200, user);
+    if (req.method === 'GET' && url.pathname === '/api/sessions') {
+      const since = url.searchParams.get('since');
+      return send(res, 200, pull(user.id, since === null ? null : Number(since) || 0));
+    }
+    if (req.method === 'PUT' && url.pathname === '/api/sessions') {
+      const body = await readBody(req);
+      if (!Array.isArray(body.sessions)) return send(res, 400, { error: 'Expected { sessions: [] }' });
+      return send(res, 200, push(user.id, body.sessions));
+    }
+    if (req.method === 'POST' && url.pathname === '/api/sessions/delete') {
+      const body = await readBody(req);
+      if (!Array.isArray(body.ids)) return send(res, 400, { error: 'Expected { ids: [] }' });
+      return send(res, 200, remove(user.id, body.ids));
+    }
+    if (req.method === 'GET' && url.pathname === '/api/docs') {
+      const since = url.searchParams.get('since');
+      return send(res, 200, pullDocs(user.id, since === null ? null : Number(since) || 0));
+    }
+    if (req.method === 'PUT' && url.pathname === '/api/docs') {
+      const body = await readBody(req);
+      if (!Array.isArray(body.docs)) return send(res, 400, { error: 'Expected { docs: [] }' });
+      return send(res, 200, pushDocs(user.id, body.docs));
+    }
+    if (req.method === 'POST' && url.pathname === '/api/docs/delete') {
+      const body = await readBody(req);
+      if (!Array.isArray(body.keys)) return send(res, 400, { error: 'Expected { keys: [] }' });
+      return send(res, 200, removeDocs(user.id, body.keys));
+    }
+    if (req.method === 'GET' && url.pathname === '/api/vault') return send(res, 200, { vault: data.vaults[user.id] || null });
+    if (req.method === 'PUT' && url.pathname === '/api/vault') {
+      const body = await readBody(req);
+      if (!isVault(body.vault) || (body.expected !== null && typeof body.expected !== 'number')) {
+        return send(res, 400, { error: 'Expected { vault, expected }' });
+      }
+      return send(res, 200, putVault(user.id, body.vault, body.expected));
+    }
+    const after = url.searchParams.get('after') === null ? null : Number(url.searchParams.get('after'));
+    if (req.method === 'GET' && url.pathname === '/api/live') {
+      return longPoll(res, `live:${user.id}`, after, () => liveOf(user.id));
+    }
+    if (req.method === 'PUT' && url.pathname === '/api/live') {
+      const body = await readBody(req);
+      if (!body || typeof body !== 'object') return send(res, 400, { error: 'Expected { timer?, command? }' });
+      return send(res, 200, publishLive(user.id, body));
+    }
+    if (req.method === 'POST' && url.pathname === '/api/rooms') {
+      const body = await readBody(req);
+      if (!isRoom(body.room)) return send(res, 400, { error: 'Expected { room: { code, name, config, startedAt } }' });
+      return send(res, 200, createRoom(user.id, body.room));
+    }
+    const room = /^\/api\/rooms\/([A-Z0-9]+)(\/member)?$/.exec(url.pathname);
+    if (room && req.method === 'GET' && !room[2]) {
+      return longPoll(res, `room:${room[1]}`, after, () => roomOf(room[1]));
+    }
+    if (room && req.method === 'PUT' && room[2]) {
+      const body = await readBody(req);
+      if (body.member !== null && !isMember(body.member)) return send(res, 400, { error: 'Expected { member: { name, status } | null }' });
+      return setRoomMember(user.id, room[1], body.member) ? send(res, 200, {}) : send(res, 404, { error: 'No such room' });
+    }
+    return send(res, 404, { error: 'Not found' });
+  } catch (e) {
+    return send(res, 400, { error: e instanceof Error ? e.message : 'Bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Tempo sync server on http://localhost:${PORT} (data in ${DATA_FILE})`);
+});
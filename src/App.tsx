@@ -1,107 +1,171 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { signInWithGoogle, onAuth, logout, saveSession, fetchLastSessions } from './services/firebase';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { outbox, syncBackend, syncDocs, syncSessions } from './services/sync';
+import { refreshEncryption } from './services/e2e';
 import Timer from './components/Timer';
 import TimerSettings from './components/TimerSettings';
 import WorkdayProgress from './components/WorkdayProgress';
 import WatchFace from './components/WatchFace';
 import Diary from './components/Diary';
 import SchedulePreview from './components/SchedulePreview';
+import InterruptionForm from './components/InterruptionForm';
+import TaskList from './components/TaskList';
+import ReflectionPrompt from './components/ReflectionPrompt';
+import GoalSettings from './components/GoalSettings';
+import FocusRoom from './components/FocusRoom';
+import EncryptionSettings from './components/EncryptionSettings';
 import { resumeAudioContext, announcePhase, announceEnd, playChimeByName, playFinalChimeByName, type SoundName } from './utils/audio';
 import { vibrateShort, vibrateSuccess, vibrateWarning } from './utils/haptics';
-import { STORAGE, THEMES, type ThemeName } from './utils/constants';
-import { nextMidnightDelayMs } from './utils/dates';
+import { STORAGE, THEMES, SEGMENT_ADJUST_STEP, type ThemeName } from './utils/constants';
+import { getTodayKeyLocal, nextMidnightDelayMs } from './utils/dates';
+import { goalHistoryStart, goalProgress, goalSessions, hasGoals, readGoals, writeGoals, type FocusGoals } from './utils/goals';
+import { emptyDayTotals, totalsByDay } from './utils/stats';
+import { countPomodoro, readTasks, writeTasks, type Task } from './utils/tasks';
+import { loadSessionsBetween, newSessionId, saveSessions, type SessionRecord } from './utils/sessions';
+import { updateDiaryDay } from './utils/diary';
+import { readJson, readProfiles, readSettings, readString, writeJson, writeString } from './utils/storage';
+import { joinTabs, type TabCommand, type TabMessage, type TabSync } from './utils/tabs';
+import { deviceId, HEARTBEAT_MS, isCommandFresh, isLiveActive, liveSignature, type LiveDoc, type LiveTimer } from './utils/liveTimer';
+import type { OutboxCounts } from './utils/outbox';
+import { activeMembers, memberStatus, newRoomCode, roomConfig, ROOM_HEARTBEAT_MS, type Room } from './utils/rooms';
+import {
+  sessionReducer,
+  createSessionState,
+  adjustedSeconds,
+  emptyCounters,
+  flowBreakSeconds,
+  loggedSegments,
+  planAhead,
+  plannedTotals,
+  schedulePosition,
+  segmentLabel,
+  targetPomodoros,
+  toRuntime,
+  DEFAULT_SESSION_CONFIG,
+  type InterruptionKind,
+  type RunMode,
+  type ScheduleType,
+  type SequenceStep,
+  type SessionConfig,
+  type SessionCounters,
+  type SessionEvent,
+  type SessionRuntime,
+  type SessionState,
+} from './utils/sessionEngine';
 
-type TimerType = 'pomodoro' | 'shortBreak' | 'longBreak';
+// Load cumulative counters persisted by a previous visit
+const readCumulative = (): SessionCounters => {
+  const counters = emptyCounters();
+  const v = readJson<Partial<SessionCounters> | null>(STORAGE.CUMULATIVE, null);
+  if (!v || typeof v !== 'object') return counters;
+  (Object.keys(counters) as Array<keyof SessionCounters>).forEach((k) => {
+    const n = v[k];
+    if (typeof n === 'number' && n >= 0) counters[k] = n;
+  });
+  return counters;
+};
+
+// Start of the pomodoro that just ended when `next` moved on from it to a break
+const endedPomodoro = (prev: SessionState, next: SessionState): number | null => {
+  const ended = prev.segment === 'pomodoro' && next.segment !== 'pomodoro' ? next.segments[next.segments.length - 1] : undefined;
+  return ended && ended.type === 'pomodoro' ? ended.startedAt : null;
+};
 
 function App() {
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
-  const [currentTimerType, setCurrentTimerType] = useState<TimerType>('pomodoro');
-  const [pomodoroDuration, setPomodoroDuration] = useState(25 * 60); // Default 25 minutes
-  const [shortBreakDuration, setShortBreakDuration] = useState(5 * 60); // Default 5 minutes
-  const [longBreakDuration, setLongBreakDuration] = useState(15 * 60); // Default 15 minutes
-  const [workdayDuration, setWorkdayDuration] = useState(8 * 3600); // Default 8 hours in seconds
-  const [elapsedWorkdayTime, setElapsedWorkdayTime] = useState(0);
-  const [cumulativeActiveSec, setCumulativeActiveSec] = useState(0);
-  const [cumulativeBreakSec, setCumulativeBreakSec] = useState(0);
-  const [cumulativeShortBreakSec, setCumulativeShortBreakSec] = useState(0);
-  const [cumulativeLongBreakSec, setCumulativeLongBreakSec] = useState(0);
-  const [pomodorosCompleted, setPomodorosCompleted] = useState(0);
-  const [cumulativePomodoros, setCumulativePomodoros] = useState(0);
-  const [longEvery, setLongEvery] = useState(4);
+  const [pomodoroDuration, setPomodoroDuration] = useState(DEFAULT_SESSION_CONFIG.pomodoro);
+  const [shortBreakDuration, setShortBreakDuration] = useState(DEFAULT_SESSION_CONFIG.shortBreak);
+  const [longBreakDuration, setLongBreakDuration] = useState(DEFAULT_SESSION_CONFIG.longBreak);
+  const [workdayDuration, setWorkdayDuration] = useState(DEFAULT_SESSION_CONFIG.workday);
+  const [longEvery, setLongEvery] = useState(DEFAULT_SESSION_CONFIG.longEvery);
   const [showSettings, setShowSettings] = useState(false);
-  const [runMode, setRunMode] = useState<'workday' | 'cycles'>('workday');
-  const [targetCycles, setTargetCycles] = useState<number>(8);
-  const [pendingAutoStart, setPendingAutoStart] = useState<boolean>(false);
+  const [runMode, setRunMode] = useState<RunMode>(DEFAULT_SESSION_CONFIG.mode);
+  const [targetCycles, setTargetCycles] = useState<number>(DEFAULT_SESSION_CONFIG.targetCycles);
   const [theme, setTheme] = useState<ThemeName>('blue');
   const ALLOWED_THEMES: Array<ThemeName> = ['blue', 'gold', 'neo', 'cosmic', 'glass', 'chrono'];
-  const [hasEverStarted, setHasEverStarted] = useState<boolean>(false);
-  const [sessionId, setSessionId] = useState<number>(0);
   const [hapticsEnabled, setHapticsEnabled] = useState<boolean>(true);
-  const [scheduleType, setScheduleType] = useState<'standard' | 'shortOnly' | 'longOnly'>('standard');
+  const [scheduleType, setScheduleType] = useState<ScheduleType>(DEFAULT_SESSION_CONFIG.scheduleType);
+  const [sequence, setSequence] = useState<SequenceStep[]>(DEFAULT_SESSION_CONFIG.sequence);
+  const [flowBreakRatio, setFlowBreakRatio] = useState<number>(DEFAULT_SESSION_CONFIG.flowBreakRatio);
   const [showDiary, setShowDiary] = useState<boolean>(false);
+  const [showInterruption, setShowInterruption] = useState<boolean>(false);
+  const [showTasks, setShowTasks] = useState<boolean>(false);
+  const [goals, setGoals] = useState<FocusGoals>(() => readGoals());
+  // Saved sessions, re-read whenever the Diary data changes (goal progress)
+  const [savedSessions, setSavedSessions] = useState<SessionRecord[]>([]);
+  // Start of the pomodoro awaiting a reflection during the following break
+  const [reflectFor, setReflectFor] = useState<number | null>(null);
+  const [tasks, setTasks] = useState<Task[]>(() => readTasks());
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(() => readString(STORAGE.ACTIVE_TASK) || null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [userName, setUserName] = useState<string | null>(null);
+  // The joined focus room (see utils/rooms); its schedule replaces the timer settings
+  const [showRoom, setShowRoom] = useState<boolean>(false);
+  const [roomCode, setRoomCode] = useState<string | null>(() => readString(STORAGE.ROOM) || null);
+  const [room, setRoom] = useState<Room | null>(null);
+  const [roomError, setRoomError] = useState<string | null>(null);
+  const [outboxCounts, setOutboxCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 });
   const [sound, setSound] = useState<SoundName>(() => {
-    try {
-      const s = localStorage.getItem(STORAGE.SOUND) as SoundName | null;
-      if (s === 'beep' || s === 'bell' || s === 'digital' || s === 'chime') return s;
-    } catch {}
-    return 'chime';
+    const s = readString(STORAGE.SOUND);
+    return s === 'beep' || s === 'bell' || s === 'digital' || s === 'chime' ? s : 'chime';
   });
-  const [currentProfile, setCurrentProfile] = useState<string>(() => {
-    try {
-      return localStorage.getItem(STORAGE.CURRENT_PROFILE) || 'Default';
-    } catch {
-      return 'Default';
+  const [currentProfile, setCurrentProfile] = useState<string>(() => readString(STORAGE.CURRENT_PROFILE) || 'Default');
+
+  const settingsConfig = useMemo<SessionConfig>(() => ({
+    pomodoro: pomodoroDuration,
+    shortBreak: shortBreakDuration,
+    longBreak: longBreakDuration,
+    workday: workdayDuration,
+    longEvery,
+    mode: runMode,
+    targetCycles,
+    scheduleType,
+    sequence,
+    flowBreakRatio,
+  }), [pomodoroDuration, shortBreakDuration, longBreakDuration, workdayDuration, longEvery, runMode, targetCycles, scheduleType, sequence, flowBreakRatio]);
+  // Room updates arrive with every member heartbeat; the config only changes with the room
+  const roomConfigJson = room ? JSON.stringify(room.config) : null;
+  const config = useMemo<SessionConfig>(
+    () => (roomConfigJson ? JSON.parse(roomConfigJson) as SessionConfig : settingsConfig),
+    [roomConfigJson, settingsConfig],
+  );
+
+  // The phase machine lives in utils/sessionEngine; the ref mirrors the latest state so
+  // handlers can read the outcome of an event synchronously and run side effects on it.
+  const [session, setSession] = useState<SessionState>(() => createSessionState(DEFAULT_SESSION_CONFIG, readCumulative()));
+  const sessionRef = useRef<SessionState>(session);
+  const dispatchSession = useCallback((event: SessionEvent): SessionState => {
+    const next = sessionReducer(sessionRef.current, event);
+    if (next !== sessionRef.current) {
+      sessionRef.current = next;
+      setSession(next);
     }
-  });
+    return next;
+  }, []);
+
+  // Only the leader tab runs the timer; the others mirror it (see utils/tabs)
+  const [isLeader, setIsLeader] = useState(false);
+  const leaderRef = useRef(false);
+  const tabsRef = useRef<TabSync | null>(null);
+  // A timer running on another signed-in device, which the leader tab then mirrors like a
+  // follower (see utils/liveTimer); remoteOwner is that timer's profile, in every tab
+  const [remoteOwner, setRemoteOwner] = useState<string | null>(null);
+  const remoteRef = useRef<LiveTimer | null>(null);
+  const drives = isLeader && remoteOwner === null;
+
+  const isTimerRunning = session.status === 'running';
+  const hasEverStarted = session.status === 'running' || session.status === 'paused';
+  const { counters } = session;
 
   // Ensure robust time accumulation even when the tab is throttled or backgrounded
-  const lastTickRef = useRef<number | null>(null);
   const processDelta = useCallback(() => {
-    if (!isTimerRunning) return;
-    const now = Date.now();
-    if (lastTickRef.current == null) {
-      lastTickRef.current = now;
-      return;
+    if (!leaderRef.current || remoteRef.current) return;
+    const prev = sessionRef.current;
+    const next = dispatchSession({ type: 'tick', now: Date.now(), config });
+    if (prev.status === 'running' && next.status === 'paused') {
+      try { alert('Workday completed!'); } catch { /* ignore */ }
     }
-    const deltaMs = Math.max(0, now - lastTickRef.current);
-    const deltaSec = Math.floor(deltaMs / 1000);
-    if (deltaSec <= 0) return;
-    lastTickRef.current += deltaSec * 1000;
-
-    // Update elapsed workday time with clamping when in workday mode
-    setElapsedWorkdayTime((prev) => {
-      const next = prev + deltaSec;
-      if (runMode === 'workday' && next >= workdayDuration) {
-        setIsTimerRunning(false);
-        try { alert('Workday completed!'); } catch {}
-      }
-      return next;
-    });
+  }, [config, dispatchSession]);
 
-    // Update cumulative counters based on current phase
-    if (currentTimerType === 'pomodoro') {
-      setCumulativeActiveSec((a) => a + deltaSec);
-    } else {
-      setCumulativeBreakSec((b) => b + deltaSec);
-      if (currentTimerType === 'shortBreak') {
-        setCumulativeShortBreakSec((s) => s + deltaSec);
-      } else if (currentTimerType === 'longBreak') {
-        setCumulativeLongBreakSec((l) => l + deltaSec);
-      }
-    }
-  }, [isTimerRunning, currentTimerType, runMode, workdayDuration]);
-
-  const handleSettingsChange = useCallback((settings: {
-    pomodoro: number;
-    shortBreak: number;
-    longBreak: number;
-    workday: number;
-    longEvery: number;
-    mode: 'workday' | 'cycles';
-    targetCycles: number;
-    scheduleType: 'standard' | 'shortOnly' | 'longOnly';
-  }) => {
+  const applySettings = useCallback((settings: SessionConfig) => {
     setPomodoroDuration(settings.pomodoro);
     setShortBreakDuration(settings.shortBreak);
     setLongBreakDuration(settings.longBreak);
@@ -110,207 +174,173 @@ function App() {
     setRunMode(settings.mode);
     setTargetCycles(settings.targetCycles);
     setScheduleType(settings.scheduleType);
-    setShowSettings(false);
+    setSequence(settings.sequence);
+    setFlowBreakRatio(settings.flowBreakRatio);
   }, []);
 
-  // Subscribe to Firebase Auth state (if configured)
+  const handleSettingsChange = useCallback((settings: SessionConfig) => {
+    applySettings(settings);
+    setShowSettings(false);
+  }, [applySettings]);
+
+  // Subscribe to the sync backend's auth state (if one is configured)
   useEffect(() => {
+    if (!syncBackend) return;
     try {
-      const unsub = onAuth((user) => {
-        setUserId(user?.uid ?? null);
+      const unsub = syncBackend.onAuth((user) => {
+        setUserId(user?.id ?? null);
+        setUserName(user?.name ?? null);
       });
-      return () => { try { unsub(); } catch {} };
+      return () => { try { unsub(); } catch { /* ignore */ } };
     } catch {
-      // Firebase not configured yet; ignore
+      // Backend misconfigured; stay local-only
     }
   }, []);
 
-  // On login: fetch last 30 days of sessions from Firestore and merge into local cache
+  // The leader tab sends queued cloud writes while signed in
   useEffect(() => {
-    if (!userId) return;
+    if (!userId || !isLeader) return;
+    return outbox.start(userId);
+  }, [userId, isLeader]);
+
+  useEffect(() => {
+    outbox.counts(userId).then(setOutboxCounts).catch(() => { /* ignore */ });
+    const onOutbox = (e: Event) => setOutboxCounts((e as CustomEvent<OutboxCounts>).detail);
+    window.addEventListener('outbox-updated', onOutbox);
+    return () => window.removeEventListener('outbox-updated', onOutbox);
+  }, [userId]);
+
+  // On login: merge sessions, settings, profiles and diary days changed since the last sync
+  // (nothing syncs while encryption is locked on this device)
+  useEffect(() => {
+    if (!userId || !syncBackend) return;
     (async () => {
       try {
-        const cloud = await fetchLastSessions(userId, 30);
-        const raw = localStorage.getItem(STORAGE.SESSIONS);
-        const local = raw ? (JSON.parse(raw) as Array<{ id: string; endedAt: number }>) : [];
-        const existing = new Set(local.map((s) => s.endedAt));
-        const merged = [...local];
-        for (const c of cloud) {
-          if (!existing.has(c.ended_at)) {
-            merged.push({
-              id: (c as any).id || String(c.ended_at),
-              dateKey: c.date_key,
-              profile: c.profile,
-              active: c.active,
-              break: c.break,
-              short: c.short,
-              long: c.long,
-              pomodoros: c.pomodoros,
-              startedAt: c.started_at,
-              endedAt: c.ended_at,
-              mode: c.mode,
-            } as any);
-          }
-        }
-        localStorage.setItem(STORAGE.SESSIONS, JSON.stringify(merged));
+        await refreshEncryption(syncBackend, userId);
+        await syncSessions(syncBackend, userId);
+        await syncDocs(syncBackend, userId);
+        window.dispatchEvent(new CustomEvent('settings-synced'));
+        window.dispatchEvent(new CustomEvent('diary-updated'));
       } catch {}
     })();
   }, [userId]);
 
-  const writeDiarySnapshot = () => {
-    try {
-      const now = new Date();
-      const key = `${now.getFullYear()}-${(now.getMonth()+1).toString().padStart(2,'0')}-${now.getDate().toString().padStart(2,'0')}`;
-      const raw = localStorage.getItem(STORAGE.DIARY);
-      const store = raw ? JSON.parse(raw) : {};
-      const prev = store[key] || { active: 0, brk: 0, short: 0, long: 0, poms: 0, elapsed: 0, byProfile: {} };
-      const profileName = localStorage.getItem(STORAGE.CURRENT_PROFILE) || 'Default';
+  // The profile and counters are captured now; the day is updated once IndexedDB is ready
+  const writeDiarySnapshot = useCallback((s: SessionState = sessionRef.current) => {
+    if (!leaderRef.current || remoteRef.current) return;
+    const now = new Date();
+    const key = getTodayKeyLocal(now);
+    const profileName = readString(STORAGE.CURRENT_PROFILE) || 'Default';
+    const c = { ...s.counters };
+    const pomodorosCompleted = s.pomodorosCompleted;
+    void updateDiaryDay(key, (prev) => {
       // Compute deltas since last snapshot baseline (persisted baselines not used; rely on prev in store)
-      const dActive = Math.max(0, cumulativeActiveSec - (prev._baseActive || 0));
-      const dBreak = Math.max(0, cumulativeBreakSec - (prev._baseBreak || 0));
-      const dShort = Math.max(0, cumulativeShortBreakSec - (prev._baseShort || 0));
-      const dLong = Math.max(0, cumulativeLongBreakSec - (prev._baseLong || 0));
+      const dActive = Math.max(0, c.active - (prev._baseActive || 0));
+      const dBreak = Math.max(0, c.brk - (prev._baseBreak || 0));
+      const dShort = Math.max(0, c.short - (prev._baseShort || 0));
+      const dLong = Math.max(0, c.long - (prev._baseLong || 0));
       const dPoms = Math.max(0, pomodorosCompleted - (prev._basePoms || 0));
-      const nextByProfile = { ...(prev.byProfile || {}) } as Record<string, { active: number; brk: number; poms?: number }>;
-      const pp = nextByProfile[profileName] || { active: 0, brk: 0, poms: 0 };
+      const nextByProfile = { ...prev.byProfile };
+      const pp = { ...(nextByProfile[profileName] || { active: 0, brk: 0, poms: 0 }) };
       pp.active += dActive;
       pp.brk += dBreak;
-      pp.poms = (pp.poms || 0) + dPoms;
+      pp.poms += dPoms;
       nextByProfile[profileName] = pp;
-      store[key] = {
-        active: (prev.active || 0) + dActive,
-        brk: (prev.brk || 0) + dBreak,
-        short: (prev.short || 0) + dShort,
-        long: (prev.long || 0) + dLong,
-        poms: (prev.poms || 0) + dPoms,
-        elapsed: Math.max(prev.elapsed || 0, elapsedWorkdayTime),
+      return {
+        active: prev.active + dActive,
+        brk: prev.brk + dBreak,
+        short: prev.short + dShort,
+        long: prev.long + dLong,
+        poms: prev.poms + dPoms,
+        elapsed: Math.max(prev.elapsed, c.elapsed),
         ts: Date.now(),
         byProfile: nextByProfile,
-        _baseActive: cumulativeActiveSec,
-        _baseBreak: cumulativeBreakSec,
-        _baseShort: cumulativeShortBreakSec,
-        _baseLong: cumulativeLongBreakSec,
+        _baseActive: c.active,
+        _baseBreak: c.brk,
+        _baseShort: c.short,
+        _baseLong: c.long,
         _basePoms: pomodorosCompleted,
       };
-      localStorage.setItem(STORAGE.DIARY, JSON.stringify(store));
-    } catch {}
-  };
+    }).then(() => window.dispatchEvent(new CustomEvent('diary-updated'))).catch(() => { /* ignore */ });
+  }, []);
 
   // Aggiorna solo i pomodori completati senza toccare i contatori di tempo
-  const updatePomodorosOnly = () => {
-    try {
-      const now = new Date();
-      const key = `${now.getFullYear()}-${(now.getMonth()+1).toString().padStart(2,'0')}-${now.getDate().toString().padStart(2,'0')}`;
-      const raw = localStorage.getItem(STORAGE.DIARY);
-      const store = raw ? JSON.parse(raw) : {};
-      const prev = store[key] || { active: 0, brk: 0, short: 0, long: 0, poms: 0, elapsed: 0, byProfile: {} };
-      const profileName = localStorage.getItem(STORAGE.CURRENT_PROFILE) || 'Default';
-      
+  const updatePomodorosOnly = (s: SessionState) => {
+    const now = new Date();
+    const key = getTodayKeyLocal(now);
+    const profileName = readString(STORAGE.CURRENT_PROFILE) || 'Default';
+    const pomodorosCompleted = s.pomodorosCompleted;
+
+    void updateDiaryDay(key, (prev) => {
       // Aggiorna solo i pomodori, non i contatori di tempo
       const dPoms = Math.max(0, pomodorosCompleted - (prev._basePoms || 0));
-      const nextByProfile = { ...(prev.byProfile || {}) } as Record<string, { active: 0, brk: 0, poms?: number }>;
-      const pp = nextByProfile[profileName] || { active: 0, brk: 0, poms: 0 };
-      pp.poms = (pp.poms || 0) + dPoms;
+      const nextByProfile = { ...prev.byProfile };
+      const pp = { ...(nextByProfile[profileName] || { active: 0, brk: 0, poms: 0 }) };
+      pp.poms += dPoms;
       nextByProfile[profileName] = pp;
-      
-      store[key] = {
+      return {
         ...prev,
-        poms: (prev.poms || 0) + dPoms,
+        poms: prev.poms + dPoms,
         byProfile: nextByProfile,
         _basePoms: pomodorosCompleted,
         ts: Date.now(),
       };
-      localStorage.setItem(STORAGE.DIARY, JSON.stringify(store));
-      
+    })
       // Forza il refresh del componente Diary per mostrare i pomodori aggiornati
-      window.dispatchEvent(new CustomEvent('diary-updated'));
-    } catch {}
-  };
-
-  type SessionRecord = {
-    id: string;
-    dateKey: string;
-    profile: string;
-    active: number;
-    break: number;
-    short: number;
-    long: number;
-    pomodoros: number;
-    startedAt: number;
-    endedAt: number;
-    mode: 'workday' | 'cycles';
+      .then(() => window.dispatchEvent(new CustomEvent('diary-updated')))
+      .catch(() => { /* ignore */ });
   };
 
-  const writeSessionRecord = useCallback((opts?: { includeLastPomodoro?: boolean }) => {
-    let totalActive = cumulativeActiveSec;
-    let totalBreak = cumulativeBreakSec;
+  const writeSessionRecord = useCallback((s: SessionState) => {
+    let totalActive = s.counters.active;
+    let totalBreak = s.counters.brk;
     if (totalActive + totalBreak <= 0) return; // ignore empty sessions
     try {
       const now = Date.now();
       const day = new Date();
-      const dateKey = `${day.getFullYear()}-${(day.getMonth()+1).toString().padStart(2,'0')}-${day.getDate().toString().padStart(2,'0')}`;
+      const dateKey = getTodayKeyLocal(day);
       const profile = currentProfile;
-      const effectivePomodoros = (pomodorosCompleted || 0) + (opts?.includeLastPomodoro ? 1 : 0);
-
-      // Snap totals for Cycles sessions to exact configured durations to avoid off-by-one
-      if (runMode === 'cycles' && effectivePomodoros > 0) {
-        // Active time is pomodoros * pomodoroDuration
-        totalActive = effectivePomodoros * pomodoroDuration;
-        // Breaks count is pomodoros - 1 (no trailing break after last pomodoro)
-        const breaksCount = Math.max(0, effectivePomodoros - 1);
-        let longCount = 0;
-        let shortCount = 0;
-        if (scheduleType === 'shortOnly') {
-          shortCount = breaksCount;
-        } else if (scheduleType === 'longOnly') {
-          longCount = breaksCount;
-        } else {
-          for (let n = 1; n <= breaksCount; n++) {
-            if (longEvery > 0 && n % longEvery === 0) longCount++; else shortCount++;
-          }
-        }
-        totalBreak = (shortCount * shortBreakDuration) + (longCount * longBreakDuration);
+      const pomodoros = Math.max(0, s.pomodorosCompleted);
+      let totalShort = s.counters.short;
+      let totalLong = s.counters.long;
+
+      // Snap totals for Cycles sessions to exact configured durations to avoid off-by-one,
+      // then apply the manual extend/shorten/skip adjustments made during the run
+      if (config.mode === 'cycles' && pomodoros > 0) {
+        // Follow the configured schedule; no trailing break after the last pomodoro
+        const planned = plannedTotals(config, pomodoros);
+        totalActive = Math.max(0, planned.active + adjustedSeconds(s.adjustments, 'pomodoro'));
+        totalShort = Math.max(0, planned.short + adjustedSeconds(s.adjustments, 'shortBreak'));
+        totalLong = Math.max(0, planned.long + adjustedSeconds(s.adjustments, 'longBreak'));
+        totalBreak = totalShort + totalLong;
       }
+      const segments = loggedSegments(s, now);
       const rec: SessionRecord = {
-        id: `${now}`,
+        id: newSessionId(),
         dateKey,
         profile,
         active: totalActive,
         break: totalBreak,
-        short: runMode === 'cycles' ? Math.max(0, Math.min(totalBreak, Math.floor(totalBreak / Math.max(1, shortBreakDuration)) * shortBreakDuration)) : cumulativeShortBreakSec,
-        long: runMode === 'cycles' ? (totalBreak - (runMode === 'cycles' ? Math.max(0, Math.min(totalBreak, Math.floor(totalBreak / Math.max(1, shortBreakDuration)) * shortBreakDuration)) : 0)) : cumulativeLongBreakSec,
-        pomodoros: Math.max(0, effectivePomodoros),
-        startedAt: now - (elapsedWorkdayTime * 1000),
+        short: totalShort,
+        long: totalLong,
+        pomodoros,
+        startedAt: now - (s.counters.elapsed * 1000),
         endedAt: now,
-        mode: runMode,
+        mode: config.mode,
+        adjustments: s.adjustments.length > 0 ? s.adjustments : undefined,
+        segments: segments.length > 0 ? segments : undefined,
+        interruptions: s.interruptions.length > 0 ? s.interruptions : undefined,
+        taskId: activeTaskId ?? undefined,
+        updatedAt: now,
       };
-      const raw = localStorage.getItem(STORAGE.SESSIONS);
-      const arr = raw ? (JSON.parse(raw) as SessionRecord[]) : [];
-      arr.push(rec);
-      localStorage.setItem(STORAGE.SESSIONS, JSON.stringify(arr));
+      void saveSessions([rec])
+        .then(() => window.dispatchEvent(new CustomEvent('diary-updated')))
+        .catch(() => { /* ignore */ });
 
-      // If logged in, also persist to Firestore (best-effort)
-      try {
-        if (userId) {
-          const cloud = {
-            user_id: userId,
-            date_key: dateKey,
-            profile: profile,
-            active: rec.active,
-            break: rec.break,
-            short: rec.short,
-            long: rec.long,
-            pomodoros: rec.pomodoros,
-            started_at: rec.startedAt,
-            ended_at: rec.endedAt,
-            mode: rec.mode,
-          } as const;
-          // Fire-and-forget; do not block UI
-          void saveSession(cloud);
-        }
-      } catch {}
+      // If logged in, queue it for Firestore; the outbox retries until it gets there
+      if (userId) void outbox.enqueue({ kind: 'save', userId, session: rec }).catch(() => { /* ignore */ });
     } catch {}
-  }, [cumulativeActiveSec, cumulativeBreakSec, cumulativeShortBreakSec, cumulativeLongBreakSec, pomodorosCompleted, elapsedWorkdayTime, currentProfile, runMode, pomodoroDuration, shortBreakDuration, longBreakDuration, scheduleType, longEvery, userId]);
+  }, [currentProfile, config, userId, activeTaskId]);
 
   // Switch current profile: take a snapshot first to attribute deltas to the previous profile,
   // then update the current profile in storage and state.
@@ -319,117 +349,37 @@ function App() {
       // Ensure pending deltas are recorded under the previous profile
       writeDiarySnapshot();
     } catch {}
-    try {
-      localStorage.setItem(STORAGE.CURRENT_PROFILE, name);
-    } catch {}
+    writeString(STORAGE.CURRENT_PROFILE, name);
     setCurrentProfile(name);
   }, [writeDiarySnapshot]);
 
-  const getCurrentDuration = () => {
-    switch (currentTimerType) {
-      case 'pomodoro':
-        return pomodoroDuration;
-      case 'shortBreak':
-        return shortBreakDuration;
-      case 'longBreak':
-        return longBreakDuration;
-      default:
-        return pomodoroDuration;
-    }
-  };
-
   // Manual sync control
   const handleSyncNow = useCallback(async () => {
-    if (!userId) return;
+    if (!userId || !syncBackend) return;
     try {
-      const cloud = await fetchLastSessions(userId, 30);
-      const raw = localStorage.getItem(STORAGE.SESSIONS);
-      const local = raw ? (JSON.parse(raw) as Array<{ id: string; endedAt: number }>) : [];
-      const existing = new Set(local.map((s) => s.endedAt));
-      const merged = [...local];
-      for (const c of cloud) {
-        if (!existing.has(c.ended_at)) {
-          merged.push({
-            id: (c as any).id || String(c.ended_at),
-            dateKey: c.date_key,
-            profile: c.profile,
-            active: c.active,
-            break: c.break,
-            short: c.short,
-            long: c.long,
-            pomodoros: c.pomodoros,
-            startedAt: c.started_at,
-            endedAt: c.ended_at,
-            mode: c.mode,
-          } as any);
-        }
-      }
-      localStorage.setItem(STORAGE.SESSIONS, JSON.stringify(merged));
-      try { window.dispatchEvent(new CustomEvent('diary-updated')); } catch {}
+      await refreshEncryption(syncBackend, userId);
+      await outbox.flush(userId, { retryFailed: true });
+      await syncSessions(syncBackend, userId);
+      await syncDocs(syncBackend, userId);
+      window.dispatchEvent(new CustomEvent('settings-synced'));
+      window.dispatchEvent(new CustomEvent('diary-updated'));
     } catch {}
   }, [userId]);
 
   const startWorkday = () => {
-    // bump session to force fresh timer from settings
-    setSessionId((s) => s + 1);
-    setIsTimerRunning(true);
+    control({ type: 'start' });
     if (hapticsEnabled) vibrateSuccess();
-    setHasEverStarted(true);
-    setCurrentTimerType('pomodoro');
-    setElapsedWorkdayTime(0);
-    setCumulativeActiveSec(0);
-    setCumulativeBreakSec(0);
-    setCumulativeShortBreakSec(0);
-    setCumulativeLongBreakSec(0);
-    setCumulativePomodoros(0);
-    setPomodorosCompleted(0);
-    announcePhase('pomodoro');
-
-    // Persist runtime info for catch-up if the app closes
-    try {
-      const runtime = {
-        isRunning: true,
-        currentType: 'pomodoro' as const,
-        startedAt: Date.now(),
-        plannedEndAt: Date.now() + pomodoroDuration * 1000,
-        pomodorosCompleted,
-        scheduleType,
-        longEvery,
-        durations: { pomodoroDuration, shortBreakDuration, longBreakDuration },
-        runMode,
-        targetCycles,
-      };
-      localStorage.setItem(STORAGE.RUNTIME, JSON.stringify(runtime));
-    } catch {}
   };
 
   const resumeTimer = async () => {
     await resumeAudioContext();
-    setIsTimerRunning(true);
+    control({ type: 'resume' });
     if (hapticsEnabled) vibrateShort();
-
-    // Update runtime persistence
-    try {
-      const now = Date.now();
-      const dur = getCurrentDuration();
-      const runtime = {
-        isRunning: true,
-        currentType: currentTimerType,
-        startedAt: now,
-        plannedEndAt: now + dur * 1000,
-        pomodorosCompleted,
-        scheduleType,
-        longEvery,
-        durations: { pomodoroDuration, shortBreakDuration, longBreakDuration },
-        runMode,
-        targetCycles,
-      };
-      localStorage.setItem(STORAGE.RUNTIME, JSON.stringify(runtime));
-    } catch {}
   };
 
-
-  
+  const pauseTimer = () => {
+    control({ type: 'pause' });
+  };
 
   // Auto-snapshot diary every 5 minutes to avoid data loss on refresh/close
   useEffect(() => {
@@ -438,127 +388,373 @@ function App() {
       writeDiarySnapshot();
     }, intervalMs);
     return () => clearInterval(id);
-  }, [
-    cumulativeActiveSec,
-    cumulativeBreakSec,
-    cumulativeShortBreakSec,
-    cumulativeLongBreakSec,
-    cumulativePomodoros,
-    elapsedWorkdayTime,
-  ]);
-
-  // Forza l'aggiornamento del componente Diary ogni secondo quando il timer è in esecuzione
-  useEffect(() => {
-    let interval: number | null = null;
-    if (isTimerRunning) {
-      interval = window.setInterval(() => {
-        // Forza il refresh del componente Diary per aggiornare i contatori in tempo reale
-        window.dispatchEvent(new CustomEvent('diary-updated'));
-      }, 1000);
-    }
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isTimerRunning]);
+  }, [writeDiarySnapshot]);
 
-  const handleTimerEnd = useCallback(() => {
-    playChimeByName(sound);
-    setIsTimerRunning(false);
+  // Move to the next segment, either because the countdown ran out or because it was skipped
+  const advanceSegment = useCallback((type: 'segmentEnd' | 'skip') => {
+    const prev = sessionRef.current;
+    const next = dispatchSession({ type, now: Date.now(), config });
+    if (next === prev) return;
+
+    // A completed pomodoro counts against the active task. A skipped one still counts
+    // towards the long break, but not here; stopping a flowtime block is its normal end.
+    const completed = type === 'segmentEnd' || prev.countUp;
+    if (activeTaskId && completed && next.pomodorosCompleted > prev.pomodorosCompleted) {
+      setTasks((ts) => countPomodoro(ts, activeTaskId));
+    }
 
-    // Determine stop condition
-    const workdayDone = runMode === 'workday' && elapsedWorkdayTime >= workdayDuration;
-    const cyclesDone = runMode === 'cycles' && currentTimerType === 'pomodoro' && (pomodorosCompleted + 1) >= targetCycles;
-    if (workdayDone || cyclesDone) {
+    if (next.status === 'finished') {
       // Finalize session: play distinct final chime and reset to defaults
       playFinalChimeByName(sound);
       announceEnd();
-      writeDiarySnapshot();
-      // Include the last pomodoro that just finished if applicable
-      writeSessionRecord({ includeLastPomodoro: currentTimerType === 'pomodoro' });
+      writeDiarySnapshot(next);
+      writeSessionRecord(next);
       // Reset state after short delay to let chime ring without immediate UI changes
       setTimeout(() => {
-        setIsTimerRunning(false);
-        setCurrentTimerType('pomodoro');
-        setElapsedWorkdayTime(0);
-        setCumulativeActiveSec(0);
-        setCumulativeBreakSec(0);
-        setCumulativeShortBreakSec(0);
-        setCumulativeLongBreakSec(0);
-        setCumulativePomodoros(0);
-        setPomodorosCompleted(0);
-        setHasEverStarted(false);
-        // prepare for a clean new start based on current settings
-        setSessionId((s) => s + 1);
+        dispatchSession({ type: 'reset', config });
       }, 100);
       return;
     }
 
-    // Logic to move to the next phase
-    if (currentTimerType === 'pomodoro') {
-      const nextCompleted = pomodorosCompleted + 1;
-      setPomodorosCompleted(nextCompleted);
-      setCumulativePomodoros((c) => c + 1);
-      
+    if (prev.segment === 'pomodoro') {
       // Update only pomodoros in the Diary immediately when a pomodoro ends
-      updatePomodorosOnly();
-      
-      if (scheduleType === 'shortOnly') {
-        setCurrentTimerType('shortBreak');
-        announcePhase('shortBreak');
-      } else if (scheduleType === 'longOnly') {
-        setCurrentTimerType('longBreak');
-        announcePhase('longBreak');
-      } else {
-        if (nextCompleted % longEvery === 0) {
-          setCurrentTimerType('longBreak');
-          announcePhase('longBreak');
+      updatePomodorosOnly(next);
+    }
+    // Ask for a reflection on the pomodoro that just ended while its break runs
+    setReflectFor(endedPomodoro(prev, next));
+    announcePhase(next.segment);
+  }, [sound, config, activeTaskId, dispatchSession, writeDiarySnapshot, writeSessionRecord]);
+
+  const handleTimerEnd = useCallback(() => {
+    if (!leaderRef.current || remoteRef.current || sessionRef.current.status !== 'running') return;
+    playChimeByName(sound);
+    advanceSegment('segmentEnd');
+  }, [sound, advanceSegment]);
+
+  // Carry out a control action; in the leader tab, whichever tab it came from
+  const runCommand = (cmd: TabCommand) => {
+    const now = Date.now();
+    // Another device owns the timer: it carries out the timer actions
+    const remote = remoteRef.current;
+    if (remote && cmd.type !== 'profile') {
+      if (cmd.type !== 'snapshot' && userId && syncBackend) {
+        syncBackend.publishLive(userId, { command: { id: newSessionId(), to: remote.deviceId, command: cmd, sentAt: now } })
+          .catch(() => { /* ignore */ });
+      }
+      return;
+    }
+    switch (cmd.type) {
+      case 'start': {
+        // In a room, start wherever the shared schedule stands
+        const position = room ? schedulePosition(config, room.startedAt, now) : null;
+        if (position && !position.finished) {
+          dispatchSession({ type: 'follow', now, position, config });
+          announcePhase(position.segment);
         } else {
-          setCurrentTimerType('shortBreak');
-          announcePhase('shortBreak');
+          dispatchSession({ type: 'start', now, config });
+          announcePhase('pomodoro');
         }
+        break;
       }
-    } else {
-      // After a break, always go back to pomodoro
-      setCurrentTimerType('pomodoro');
-      announcePhase('pomodoro');
+      case 'pause':
+        dispatchSession({ type: 'pause', now });
+        break;
+      case 'resume':
+        dispatchSession({ type: 'resume', now });
+        break;
+      case 'skip':
+        advanceSegment('skip');
+        break;
+      case 'adjust':
+        dispatchSession({ type: 'adjust', now, seconds: cmd.seconds });
+        break;
+      case 'interrupt':
+        dispatchSession({ type: 'interrupt', now, kind: cmd.kind, note: cmd.note, voidPomodoro: cmd.voidPomodoro, config });
+        break;
+      case 'reflect':
+        dispatchSession({ type: 'reflect', startedAt: cmd.startedAt, note: cmd.note, rating: cmd.rating });
+        break;
+      case 'reset':
+        setReflectFor(null);
+        writeDiarySnapshot();
+        writeSessionRecord(sessionRef.current);
+        dispatchSession({ type: 'reset', config });
+        break;
+      case 'profile':
+        switchCurrentProfile(cmd.name);
+        break;
+      case 'snapshot':
+        writeDiarySnapshot();
+        break;
+    }
+  };
+
+  // Follower tabs forward control actions to the leader
+  const control = (cmd: TabCommand) => {
+    if (leaderRef.current) runCommand(cmd);
+    else tabsRef.current?.post({ type: 'command', command: cmd });
+  };
+
+  const handleSkip = () => {
+    control({ type: 'skip' });
+  };
+
+  // Whatever ran before belongs to the previous schedule, so it is recorded and reset
+  const handleJoinRoom = (code: string) => {
+    if (sessionRef.current.status !== 'idle') control({ type: 'reset' });
+    setRoomError(null);
+    setRoomCode(code);
+  };
+
+  // Rooms take their durations from a profile, or from the current settings
+  const handleCreateRoom = async (profile: string | null) => {
+    if (!userId || !syncBackend) return;
+    const base = (profile && readProfiles()[profile]) || settingsConfig;
+    try {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const code = newRoomCode();
+        const created = await syncBackend.createRoom(userId, {
+          code,
+          name: profile || currentProfile,
+          config: roomConfig(base),
+          startedAt: Date.now(),
+          createdBy: userId,
+          members: {},
+        });
+        if (created) {
+          handleJoinRoom(code);
+          return;
+        }
+      }
+      setRoomError('Could not create a room, try again');
+    } catch {
+      setRoomError('Could not create a room, check the connection');
     }
-    // Defer auto-start to a dedicated effect to avoid race conditions
-    setPendingAutoStart(true);
+  };
+
+  const handleLeaveRoom = () => {
+    if (userId && roomCode) syncBackend?.setRoomMember(userId, roomCode, null).catch(() => { /* ignore */ });
+    if (sessionRef.current.status !== 'idle') control({ type: 'reset' });
+    setRoomCode(null);
+  };
 
-    // Update runtime persistence for the upcoming segment will be done in the auto-start effect.
-    try { localStorage.removeItem(STORAGE.RUNTIME); } catch {}
-  }, [currentTimerType, elapsedWorkdayTime, workdayDuration, pomodorosCompleted, longEvery, runMode, targetCycles, sound]);
+  // Extend (positive) or shorten (negative) the current segment
+  const handleAdjust = (seconds: number) => {
+    control({ type: 'adjust', seconds });
+  };
+
+  // Log an interruption; voiding restarts the current pomodoro
+  const handleInterruption = (entry: { kind: InterruptionKind; note: string; voidPomodoro: boolean }) => {
+    control({ type: 'interrupt', ...entry });
+    setShowInterruption(false);
+  };
+
+  const handleReflection = (reflection: { note: string; rating?: number }) => {
+    if (reflectFor != null) control({ type: 'reflect', startedAt: reflectFor, ...reflection });
+    setReflectFor(null);
+  };
 
   const handleReset = () => {
-    writeDiarySnapshot();
-    writeSessionRecord();
-    setIsTimerRunning(false);
-    setCurrentTimerType('pomodoro');
-    setElapsedWorkdayTime(0);
-    setCumulativeActiveSec(0);
-    setCumulativeBreakSec(0);
-    setCumulativeShortBreakSec(0);
-    setCumulativeLongBreakSec(0);
-    setCumulativePomodoros(0);
-    setPomodorosCompleted(0);
-    setHasEverStarted(false);
-    setSessionId((s) => s + 1);
-    try { localStorage.removeItem(STORAGE.RUNTIME); } catch {}
+    setShowInterruption(false);
+    setReflectFor(null);
+    control({ type: 'reset' });
+  };
+
+  // Show the state of the tab or device that runs the timer
+  const mirror = (state: SessionState) => {
+    const prev = sessionRef.current;
+    const next = dispatchSession({ type: 'mirror', now: Date.now(), state });
+    if (next.segments.length !== prev.segments.length) setReflectFor(endedPomodoro(prev, next));
   };
 
+  // The latest message handler, for the channel opened once on mount
+  const tabMessageRef = useRef<(msg: TabMessage) => void>(() => {});
   useEffect(() => {
-    let interval: number | null = null;
-    const tick = () => processDelta();
-    if (isTimerRunning) {
-      lastTickRef.current = Date.now();
-      interval = window.setInterval(tick, 1000);
-    } else {
-      lastTickRef.current = null;
-    }
+    tabMessageRef.current = (msg) => {
+      if (msg.type === 'data') {
+        window.dispatchEvent(new CustomEvent('diary-updated', { detail: 'remote' }));
+      } else if (leaderRef.current) {
+        if (msg.type === 'hello') tabsRef.current?.post({ type: 'state', state: sessionRef.current, remoteOwner });
+        if (msg.type === 'command') runCommand(msg.command);
+      } else if (msg.type === 'state') {
+        mirror(msg.state);
+        setRemoteOwner(msg.remoteOwner);
+      }
+    };
+  });
+
+  useEffect(() => {
+    const tabs = joinTabs({
+      onLeader: () => {
+        leaderRef.current = true;
+        setIsLeader(true);
+      },
+      onMessage: (msg) => tabMessageRef.current(msg),
+    });
+    tabsRef.current = tabs;
+    if (!tabs.isLeader()) tabs.post({ type: 'hello' });
     return () => {
-      if (interval) clearInterval(interval);
+      tabs.close();
+      tabsRef.current = null;
+      leaderRef.current = false;
+      setIsLeader(false);
     };
-  }, [isTimerRunning, currentTimerType, processDelta]);
+  }, []);
+
+  // Taking over a running timer, from another tab or a device that went silent: account
+  // the time since the last mirrored tick and restart the countdown from what is left,
+  // completing a segment that ran out meanwhile
+  useEffect(() => {
+    if (!drives) return;
+    processDelta();
+    dispatchSession({ type: 'rebase', now: Date.now() });
+  }, [drives, processDelta, dispatchSession]);
+
+  // The leader publishes every state change to the other tabs
+  useEffect(() => {
+    if (isLeader) tabsRef.current?.post({ type: 'state', state: session, remoteOwner });
+  }, [isLeader, session, remoteOwner]);
+
+  // Timers of the user's other devices: follow one while nothing runs here, and carry out
+  // the commands sent to this device while it owns the timer. Null ends the subscription.
+  const liveMessageRef = useRef<(live: LiveDoc | null) => void>(() => {});
+  const lastCommandRef = useRef<string | null>(null);
+  useEffect(() => {
+    liveMessageRef.current = (live) => {
+      const current = remoteRef.current;
+      const stopFollowing = () => {
+        remoteRef.current = null;
+        setRemoteOwner(null);
+      };
+      if (!live) {
+        // Signed out: the other device keeps its timer, this one goes back to idle
+        if (current) {
+          stopFollowing();
+          dispatchSession({ type: 'reset', config });
+        }
+        return;
+      }
+      const now = Date.now();
+      const me = deviceId();
+      const { timer, command } = live;
+      if (command && command.to === me && !current && command.id !== lastCommandRef.current && isCommandFresh(command, now)) {
+        lastCommandRef.current = command.id;
+        runCommand(command.command);
+      }
+      if (!timer || timer.deviceId === me) return;
+      const localActive = sessionRef.current.status === 'running' || sessionRef.current.status === 'paused';
+      const followed = current && isLiveActive(current, now) ? current.deviceId : null;
+      if (followed ? followed !== timer.deviceId : !current && localActive) return;
+      if (isLiveActive(timer, now)) {
+        remoteRef.current = timer;
+        setRemoteOwner(timer.profile);
+        mirror(timer.state);
+      } else if (current) {
+        // Stopped there (or went silent): a finished timer is shown as such, a silent one taken over
+        stopFollowing();
+        if (timer.state.status === 'idle' || timer.state.status === 'finished') mirror(timer.state);
+      }
+    };
+  });
+
+  useEffect(() => {
+    if (!userId || !isLeader || !syncBackend) return;
+    const unsubscribe = syncBackend.watchLive(userId, (live) => liveMessageRef.current(live));
+    return () => {
+      unsubscribe();
+      liveMessageRef.current(null);
+    };
+  }, [userId, isLeader]);
+
+  // An owner that stops reporting is gone; the takeover effect above continues its timer here
+  useEffect(() => {
+    if (!isLeader || remoteOwner === null) return;
+    const id = window.setInterval(() => {
+      if (remoteRef.current && !isLiveActive(remoteRef.current, Date.now())) {
+        remoteRef.current = null;
+        setRemoteOwner(null);
+      }
+    }, HEARTBEAT_MS);
+    return () => clearInterval(id);
+  }, [isLeader, remoteOwner]);
+
+  // While this device runs the timer, publish its state on every visible change and as a
+  // heartbeat; the final idle state releases the devices following it
+  const liveChange = liveSignature(session);
+  const publishedRef = useRef(false);
+  useEffect(() => {
+    if (!drives || !userId || !syncBackend) return;
+    const backend = syncBackend;
+    const publish = () => {
+      const state = sessionRef.current;
+      const active = state.status === 'running' || state.status === 'paused';
+      if (!active && !publishedRef.current) return;
+      publishedRef.current = active;
+      backend.publishLive(userId, { timer: { deviceId: deviceId(), profile: currentProfile, state, updatedAt: Date.now() } })
+        .catch(() => { /* the next change or heartbeat tries again */ });
+    };
+    publish();
+    if (!publishedRef.current) return;
+    const id = window.setInterval(publish, HEARTBEAT_MS);
+    return () => clearInterval(id);
+  }, [drives, userId, liveChange, currentProfile]);
+
+  // Stored diary days and sessions changed here: let the other tabs reload them
+  useEffect(() => {
+    const onDiaryUpdate = (e: Event) => {
+      if ((e as CustomEvent).detail !== 'remote') tabsRef.current?.post({ type: 'data' });
+    };
+    window.addEventListener('diary-updated', onDiaryUpdate);
+    return () => window.removeEventListener('diary-updated', onDiaryUpdate);
+  }, []);
+
+  // Settings, prefs, profile and tasks changed in another tab, or settings and prefs
+  // merged from other devices by a sync (`settings-synced`)
+  useEffect(() => {
+    const reloadPrefs = () => {
+      const t = readString(STORAGE.THEME);
+      if (t && t in THEMES) setTheme(t as ThemeName);
+      const s = readString(STORAGE.SOUND);
+      if (s === 'beep' || s === 'bell' || s === 'digital' || s === 'chime') setSound(s);
+      const h = readString(STORAGE.HAPTICS);
+      if (h === '0' || h === '1') setHapticsEnabled(h === '1');
+    };
+    const reloadSettings = () => {
+      const s = readSettings();
+      if (s) applySettings(s);
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE.SETTINGS) {
+        reloadSettings();
+      } else if (e.key === STORAGE.THEME || e.key === STORAGE.SOUND || e.key === STORAGE.HAPTICS) {
+        reloadPrefs();
+      } else if (e.key === STORAGE.CURRENT_PROFILE) {
+        setCurrentProfile(readString(STORAGE.CURRENT_PROFILE) || 'Default');
+      } else if (e.key === STORAGE.TASKS) {
+        setTasks(readTasks());
+      } else if (e.key === STORAGE.ACTIVE_TASK) {
+        setActiveTaskId(readString(STORAGE.ACTIVE_TASK));
+      } else if (e.key === STORAGE.ROOM) {
+        setRoomCode(readString(STORAGE.ROOM) || null);
+      }
+    };
+    const onSynced = () => {
+      reloadSettings();
+      reloadPrefs();
+    };
+    window.addEventListener('storage', onStorage);
+    window.addEventListener('settings-synced', onSynced);
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      window.removeEventListener('settings-synced', onSynced);
+    };
+  }, [applySettings]);
+
+  useEffect(() => {
+    if (!isTimerRunning || !drives) return;
+    const interval = window.setInterval(processDelta, 1000);
+    return () => clearInterval(interval);
+  }, [isTimerRunning, drives, processDelta]);
 
   // Catch up immediately when the tab becomes visible or window gains focus
   useEffect(() => {
@@ -575,211 +771,211 @@ function App() {
 
   // Load saved theme at startup
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE.THEME);
-      if (saved && ALLOWED_THEMES.includes(saved as any)) {
-        setTheme(saved as any);
-      }
-    } catch {
-      // ignore storage errors (e.g., privacy mode)
+    const saved = readString(STORAGE.THEME);
+    if (saved && ALLOWED_THEMES.includes(saved as any)) {
+      setTheme(saved as any);
     }
   }, []);
 
   // Persist theme on change
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE.THEME, theme);
-    } catch {
-      // ignore storage errors
-    }
+    writeString(STORAGE.THEME, theme);
   }, [theme]);
   // Persist sound selection
   useEffect(() => {
-    try { localStorage.setItem(STORAGE.SOUND, sound); } catch {}
+    writeString(STORAGE.SOUND, sound);
   }, [sound]);
 
   // Load haptics preference
   useEffect(() => {
-    try {
-      const v = localStorage.getItem(STORAGE.HAPTICS);
-      if (v === '0' || v === 'false') setHapticsEnabled(false);
-      if (v === '1' || v === 'true') setHapticsEnabled(true);
-    } catch {}
+    const v = readString(STORAGE.HAPTICS);
+    if (v === '0' || v === 'false') setHapticsEnabled(false);
+    if (v === '1' || v === 'true') setHapticsEnabled(true);
   }, []);
 
   // Persist haptics preference
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE.HAPTICS, hapticsEnabled ? '1' : '0');
-    } catch {}
+    writeString(STORAGE.HAPTICS, hapticsEnabled ? '1' : '0');
   }, [hapticsEnabled]);
 
   // Load saved timer settings at startup
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE.SETTINGS);
-      if (!raw) return;
-      const s = JSON.parse(raw) as Partial<{
-        pomodoro: number;
-        shortBreak: number;
-        longBreak: number;
-        workday: number;
-        longEvery: number;
-        mode: 'workday' | 'cycles';
-        targetCycles: number;
-        scheduleType: 'standard' | 'shortOnly' | 'longOnly';
-      }>;
-      if (typeof s.pomodoro === 'number' && s.pomodoro >= 0) setPomodoroDuration(s.pomodoro);
-      if (typeof s.shortBreak === 'number' && s.shortBreak >= 0) setShortBreakDuration(s.shortBreak);
-      if (typeof s.longBreak === 'number' && s.longBreak >= 0) setLongBreakDuration(s.longBreak);
-      if (typeof s.workday === 'number' && s.workday >= 0) setWorkdayDuration(s.workday);
-      if (typeof s.longEvery === 'number' && s.longEvery >= 2) setLongEvery(s.longEvery);
-      if (s.mode === 'workday' || s.mode === 'cycles') setRunMode(s.mode);
-      if (s.scheduleType === 'standard' || s.scheduleType === 'shortOnly' || s.scheduleType === 'longOnly') setScheduleType(s.scheduleType);
-      if (typeof s.targetCycles === 'number' && s.targetCycles >= 1) setTargetCycles(s.targetCycles);
-    } catch {
-      // ignore parse/storage errors
-    }
-  }, []);
+    const s = readSettings();
+    if (s) applySettings(s);
+  }, [applySettings]);
 
   // Persist timer settings whenever they change
   useEffect(() => {
-    try {
-      const data = {
-        pomodoro: pomodoroDuration,
-        shortBreak: shortBreakDuration,
-        longBreak: longBreakDuration,
-        workday: workdayDuration,
-        longEvery: longEvery,
-        mode: runMode,
-        scheduleType: scheduleType,
-        targetCycles: targetCycles,
-      };
-      localStorage.setItem(STORAGE.SETTINGS, JSON.stringify(data));
-    } catch {
-      // ignore storage errors
-    }
-  }, [pomodoroDuration, shortBreakDuration, longBreakDuration, workdayDuration, longEvery, runMode, scheduleType, targetCycles]);
+    writeJson(STORAGE.SETTINGS, settingsConfig);
+  }, [settingsConfig]);
 
-  // Load cumulative counters at startup
+  // Keep an idle countdown in sync with the current settings
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE.CUMULATIVE);
-      if (!raw) return;
-      const v = JSON.parse(raw) as Partial<{ active: number; brk: number; short: number; long: number; poms: number; elapsed: number }>;
-      if (typeof v.active === 'number' && v.active >= 0) setCumulativeActiveSec(v.active);
-      if (typeof v.brk === 'number' && v.brk >= 0) setCumulativeBreakSec(v.brk);
-      if (typeof v.short === 'number' && v.short >= 0) setCumulativeShortBreakSec(v.short);
-      if (typeof v.long === 'number' && v.long >= 0) setCumulativeLongBreakSec(v.long);
-      if (typeof v.poms === 'number' && v.poms >= 0) setCumulativePomodoros(v.poms);
-      if (typeof v.elapsed === 'number' && v.elapsed >= 0) setElapsedWorkdayTime(v.elapsed);
-    } catch {
-      // ignore
-    }
-  }, []);
+    dispatchSession({ type: 'configure', config });
+  }, [config, dispatchSession]);
 
-  // On mount, attempt to catch up a possibly running segment from persisted runtime info
+  // On mount, attempt to catch up a possibly running segment from persisted runtime info.
+  // A segment that should have finished while closed restores with zero time left,
+  // so the Timer fires the normal completion logic right away.
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE.RUNTIME);
-      if (!raw) return;
-      const rt = JSON.parse(raw) as {
-        isRunning: boolean;
-        currentType: 'pomodoro' | 'shortBreak' | 'longBreak';
-        startedAt: number;
-        plannedEndAt: number;
-        pomodorosCompleted: number;
-      };
-      if (!rt.isRunning) return;
+    const rt = readJson<SessionRuntime | null>(STORAGE.RUNTIME, null);
+    if (rt) dispatchSession({ type: 'restore', now: Date.now(), runtime: rt });
+  }, [dispatchSession]);
 
-      const now = Date.now();
-      // Fast-forward counters if needed
-      const elapsedSinceStart = Math.max(0, Math.floor((now - rt.startedAt) / 1000));
-      if (elapsedSinceStart > 0) {
-        if (rt.currentType === 'pomodoro') {
-          setCumulativeActiveSec((a) => a + elapsedSinceStart);
-        } else {
-          setCumulativeBreakSec((b) => b + elapsedSinceStart);
-          if (rt.currentType === 'shortBreak') setCumulativeShortBreakSec((s) => s + elapsedSinceStart);
-          if (rt.currentType === 'longBreak') setCumulativeLongBreakSec((l) => l + elapsedSinceStart);
-        }
-        setElapsedWorkdayTime((e) => e + elapsedSinceStart);
-      }
+  // Persist runtime info for catch-up if the app closes
+  const { status, segment, stepIndex, segmentPlanned, plannedEndAt, pomodorosCompleted, segments, interruptions } = session;
+  useEffect(() => {
+    if (!drives) return;
+    const current = sessionRef.current;
+    writeJson(STORAGE.RUNTIME, current.status === 'running' ? toRuntime(current, config) : null);
+  }, [drives, status, segment, stepIndex, plannedEndAt, pomodorosCompleted, segments, interruptions, config]);
 
-      if (now >= rt.plannedEndAt) {
-        // The segment should have finished while closed; trigger the normal completion logic
-        setCurrentTimerType(rt.currentType);
-        setIsTimerRunning(true);
-        setTimeout(() => {
-          setIsTimerRunning(false);
-          handleTimerEnd();
-        }, 0);
+  // Focus room: every tab watches the joined room; the code is shared by the tabs
+  useEffect(() => {
+    writeString(STORAGE.ROOM, roomCode);
+  }, [roomCode]);
+
+  useEffect(() => {
+    setRoom(null);
+    if (!userId || !roomCode || !syncBackend) return;
+    const code = roomCode;
+    return syncBackend.watchRoom(userId, code, (next) => {
+      if (next) {
+        setRoom(next);
+        setRoomError(null);
       } else {
-        // Resume the current segment with remaining time
-        setCurrentTimerType(rt.currentType);
-        setIsTimerRunning(true);
+        setRoomCode(null);
+        setRoomError(`No room with code ${code}`);
       }
-    } catch {}
+    });
+  }, [userId, roomCode]);
+
+  // While running, keep the timer on the room's schedule. A segment that has just run out
+  // is left to the Timer, which ends it the normal way.
+  useEffect(() => {
+    if (!drives || !room || status !== 'running') return;
+    const align = () => {
+      const current = sessionRef.current;
+      const now = Date.now();
+      if (current.status !== 'running' || current.plannedEndAt == null || current.plannedEndAt <= now) return;
+      dispatchSession({ type: 'follow', now, position: schedulePosition(config, room.startedAt, now), config });
+    };
+    align();
+    const interval = window.setInterval(align, 15_000);
+    return () => clearInterval(interval);
+  }, [drives, room, status, segment, stepIndex, config, dispatchSession]);
+
+  // Tell the other members whether we are in focus or on break
+  const memberState = memberStatus(session);
+  const inRoom = room !== null;
+  useEffect(() => {
+    if (!drives || !userId || !roomCode || !inRoom || !syncBackend) return;
+    const report = () => {
+      syncBackend?.setRoomMember(userId, roomCode, { name: userName || 'Member', status: memberState, seenAt: Date.now() })
+        .catch(() => { /* ignore */ });
+    };
+    report();
+    const interval = window.setInterval(report, ROOM_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [drives, userId, userName, roomCode, inRoom, memberState]);
+
+  // Current segment plus what follows, for the schedule preview.
+  // Only flowtime depends on the running focus time (the suggested break grows with it).
+  const cyclesTarget = targetPomodoros(config);
+  const segmentElapsed = config.mode === 'flowtime' ? session.segmentElapsed : 0;
+  const plan = useMemo(
+    () => planAhead(config, { segment, stepIndex, segmentPlanned, segmentElapsed, pomodorosCompleted }, config.mode === 'cycles' ? undefined : 4),
+    [config, segment, stepIndex, segmentPlanned, segmentElapsed, pomodorosCompleted],
+  );
+
+  // Persist tasks and the active task; the Diary shows estimate vs. actual
+  useEffect(() => {
+    writeTasks(tasks);
+    try { window.dispatchEvent(new CustomEvent('diary-updated')); } catch { /* ignore */ }
+  }, [tasks]);
+
+  useEffect(() => {
+    writeString(STORAGE.ACTIVE_TASK, activeTaskId);
+  }, [activeTaskId]);
+
+  const openTasks = tasks.filter((t) => !t.done);
+
+  // Persist goals; the Diary reads them again for its goal days
+  useEffect(() => {
+    writeGoals(goals);
+    try { window.dispatchEvent(new CustomEvent('diary-updated')); } catch { /* ignore */ }
+  }, [goals]);
+
+  // A restored backup may bring its own tasks and goals
+  useEffect(() => {
+    const onRestore = () => {
+      setTasks(readTasks());
+      setGoals(readGoals());
+      setActiveTaskId(readString(STORAGE.ACTIVE_TASK));
+    };
+    window.addEventListener('backup-restored', onRestore);
+    return () => window.removeEventListener('backup-restored', onRestore);
   }, []);
 
-  // Persist cumulative counters on change
+  // Saved sessions for goal progress: only the goal's profile and the days it covers
   useEffect(() => {
-    try {
-      const data = { active: cumulativeActiveSec, brk: cumulativeBreakSec, short: cumulativeShortBreakSec, long: cumulativeLongBreakSec, poms: cumulativePomodoros, elapsed: elapsedWorkdayTime };
-      localStorage.setItem(STORAGE.CUMULATIVE, JSON.stringify(data));
-    } catch {
-      // ignore
+    if (!hasGoals(goals)) return;
+    let cancelled = false;
+    const onDiaryUpdate = () => {
+      loadSessionsBetween(goalHistoryStart(goals), '9999-12-31', goals.profile ?? undefined)
+        .then((recs) => { if (!cancelled) setSavedSessions(recs); })
+        .catch(() => { /* ignore */ });
+    };
+    onDiaryUpdate();
+    window.addEventListener('diary-updated', onDiaryUpdate);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('diary-updated', onDiaryUpdate);
+    };
+  }, [goals]);
+
+  // Daily/weekly goal progress and streaks; the running session counts towards today
+  const progress = useMemo(() => {
+    if (!hasGoals(goals)) return null;
+    const byDay = totalsByDay(goalSessions(savedSessions, goals));
+    if (hasEverStarted && (!goals.profile || goals.profile === currentProfile)) {
+      const key = getTodayKeyLocal();
+      const today = byDay[key] || emptyDayTotals();
+      byDay[key] = {
+        active: today.active + counters.active,
+        short: today.short + counters.short,
+        long: today.long + counters.long,
+        poms: today.poms + counters.poms,
+      };
     }
-  }, [cumulativeActiveSec, cumulativeBreakSec, cumulativeShortBreakSec, cumulativeLongBreakSec, cumulativePomodoros, elapsedWorkdayTime]);
+    return goalProgress(byDay, goals);
+  }, [goals, savedSessions, hasEverStarted, currentProfile, counters]);
+
+  // Persist cumulative counters on change
+  useEffect(() => {
+    if (drives) writeJson(STORAGE.CUMULATIVE, counters);
+  }, [drives, counters]);
 
   // Rollover to diary at midnight
   useEffect(() => {
-    const writeDiary = () => {
-      try {
-        // Commit deltas up to midnight
-        writeDiarySnapshot();
-      } catch {}
+    let t: number | null = null;
+    const schedule = () => {
+      t = window.setTimeout(() => {
+        // Followers get the rolled-over counters from the leader
+        if (leaderRef.current && !remoteRef.current) {
+          try {
+            // Commit deltas up to midnight
+            writeDiarySnapshot();
+          } catch {}
+          // reset counters for new day
+          dispatchSession({ type: 'dayRollover' });
+        }
+        schedule();
+      }, nextMidnightDelayMs());
     };
-    // schedule next midnight
-    const ms = nextMidnightDelayMs();
-    const t = window.setTimeout(() => {
-      writeDiary();
-      // reset counters for new day
-      setCumulativeActiveSec(0);
-      setCumulativeBreakSec(0);
-      setElapsedWorkdayTime(0);
-    }, ms);
-    return () => clearTimeout(t);
-  }, [cumulativeActiveSec, cumulativeBreakSec, elapsedWorkdayTime]);
-
-  // Auto-start the next segment after type changes and ensure session reset
-  useEffect(() => {
-    if (pendingAutoStart) {
-      // bump session to ensure Timer resets target timestamp for new segment
-      setSessionId((s) => s + 1);
-      setIsTimerRunning(true);
-      setPendingAutoStart(false);
-
-      // Refresh runtime persistence for the new segment
-      try {
-        const now = Date.now();
-        const dur = getCurrentDuration();
-        const runtime = {
-          isRunning: true,
-          currentType: currentTimerType,
-          startedAt: now,
-          plannedEndAt: now + dur * 1000,
-          pomodorosCompleted,
-          scheduleType,
-          longEvery,
-          durations: { pomodoroDuration, shortBreakDuration, longBreakDuration },
-          runMode,
-          targetCycles,
-        };
-        localStorage.setItem(STORAGE.RUNTIME, JSON.stringify(runtime));
-      } catch {}
-    }
-  }, [pendingAutoStart, currentTimerType]);
+    schedule();
+    return () => { if (t !== null) clearTimeout(t); };
+  }, [writeDiarySnapshot, dispatchSession]);
 
   const isLight = theme === 'gold';
   const sectionTextClass = isLight ? 'text-gray-700' : 'text-gray-300';
@@ -798,16 +994,20 @@ function App() {
           longBreakEvery={longEvery}
           mode={runMode}
           targetCycles={targetCycles}
+          flowBreakRatio={flowBreakRatio}
           theme={theme}
           hapticsEnabled={hapticsEnabled}
           onToggleHaptics={setHapticsEnabled}
           scheduleType={scheduleType}
+          sequence={sequence}
           onSettingsChange={handleSettingsChange}
-          onProfileApplied={(name) => switchCurrentProfile(name)}
-          onProfileSaved={(name) => switchCurrentProfile(name)}
+          onProfileApplied={(name) => control({ type: 'profile', name })}
+          onProfileSaved={(name) => control({ type: 'profile', name })}
           sound={sound}
           onSoundChange={(s)=> setSound && setSound(s)}
         />
+        <GoalSettings theme={theme} goals={goals} currentProfile={currentProfile} onChange={setGoals} />
+        {userId && <EncryptionSettings theme={theme} userId={userId} onUnlocked={handleSyncNow} />}
         <div className="mt-3 text-right">
           <button
             className={`${theme==='gold' ? 'bg-amber-500 hover:bg-amber-600 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'} text-xs font-semibold py-1.5 px-3 rounded`}
@@ -821,32 +1021,143 @@ function App() {
         <div className="mb-2 text-right">
           <button
             className={`${theme==='gold' ? 'bg-amber-400 hover:bg-amber-500 text-black' : 'bg-purple-600 hover:bg-purple-700 text-white'} text-xs font-semibold py-1.5 px-3 rounded`}
-            onClick={() => { try { writeDiarySnapshot(); } catch {} setShowDiary(false); }}
+            onClick={() => { control({ type: 'snapshot' }); setShowDiary(false); }}
           >Close Diary</button>
         </div>
         <div className="flex-1 min-h-0">
-          <Diary theme={theme} currentActive={cumulativeActiveSec} currentBreak={cumulativeBreakSec} currentElapsed={elapsedWorkdayTime} currentPoms={cumulativePomodoros} currentProfile={currentProfile} />
+          <Diary theme={theme} currentActive={counters.active} currentBreak={counters.brk} currentElapsed={counters.elapsed} currentPoms={counters.poms} currentProfile={currentProfile} currentInterruptions={session.interruptions} userId={userId} />
+        </div>
+      </div>
+
+      {/* Tasks view */}
+      <div className={`${showTasks ? '' : 'hidden'} flex flex-col h-full`}>
+        <div className="mb-2 text-right">
+          <button
+            className={`${theme==='gold' ? 'bg-amber-400 hover:bg-amber-500 text-black' : 'bg-purple-600 hover:bg-purple-700 text-white'} text-xs font-semibold py-1.5 px-3 rounded`}
+            onClick={() => setShowTasks(false)}
+          >Close Tasks</button>
+        </div>
+        <div className="flex-1 min-h-0">
+          <TaskList theme={theme} tasks={tasks} activeTaskId={activeTaskId} onTasksChange={setTasks} onActiveTaskChange={setActiveTaskId} />
         </div>
       </div>
 
-      {/* Main view with Timer (kept mounted; hidden when settings/diary open) */}
-      <div className={`${showSettings || showDiary ? 'hidden' : ''} flex flex-col h-full`}>
+      {/* Focus room view */}
+      <div className={`${showRoom ? '' : 'hidden'} flex flex-col h-full`}>
+        <div className="mb-2 text-right">
+          <button
+            className={`${theme==='gold' ? 'bg-amber-400 hover:bg-amber-500 text-black' : 'bg-purple-600 hover:bg-purple-700 text-white'} text-xs font-semibold py-1.5 px-3 rounded`}
+            onClick={() => setShowRoom(false)}
+          >Close Room</button>
+        </div>
+        <div className="flex-1 min-h-0">
+          <FocusRoom
+            theme={theme}
+            roomCode={roomCode}
+            room={room}
+            error={roomError}
+            onCreate={handleCreateRoom}
+            onJoin={handleJoinRoom}
+            onLeave={handleLeaveRoom}
+          />
+        </div>
+      </div>
+
+      {/* Main view with Timer (kept mounted; hidden when settings/diary/tasks/room open) */}
+      <div className={`${showSettings || showDiary || showTasks || showRoom ? 'hidden' : ''} flex flex-col h-full`}>
         <div className="text-center mb-2">
           <p className={`text-xl font-bold ${accentTextClass}`}>Activity in Progress</p>
-          <p className={`text-xs mt-1 ${sectionTextClass}`}><span className="font-semibold">{currentProfile}</span></p>
+          <p className={`text-xs mt-1 ${sectionTextClass}`}><span className="font-semibold">{currentProfile}</span>{config.scheduleType === 'custom' && <span> · {segmentLabel(config, session.segment, session.stepIndex)}</span>}</p>
+          {openTasks.length > 0 && (
+            <select
+              value={activeTaskId ?? ''}
+              onChange={(e) => setActiveTaskId(e.target.value || null)}
+              className={`mt-1 text-xs rounded px-2 py-1 max-w-full ${theme==='gold'?'bg-white text-gray-900 border border-gray-300':'bg-gray-800 text-gray-100 border border-gray-700'}`}
+            >
+              <option value="">No task</option>
+              {openTasks.map((t) => (
+                <option key={t.id} value={t.id}>{t.title} ({t.actual}/{t.estimate})</option>
+              ))}
+            </select>
+          )}
         </div>
 
+        {remoteOwner !== null && (
+          <div className={`text-center text-xs ${sectionTextClass}`}>
+            Running on another device · <span className={accentTextClass}>{remoteOwner}</span>
+          </div>
+        )}
+        {roomCode !== null && (
+          <div className={`text-center text-xs ${sectionTextClass}`}>
+            Room <span className={`font-mono ${accentTextClass}`}>{roomCode}</span>
+            {room && <> · {room.name} · {activeMembers(room, Date.now()).length} in room</>}
+          </div>
+        )}
         <div className="flex-1 flex items-center justify-center">
           <Timer
-            duration={getCurrentDuration()}
-            isRunning={isTimerRunning}
+            duration={session.segmentDuration}
+            isRunning={isTimerRunning && !session.countUp}
+            countUpSeconds={session.countUp ? session.segmentElapsed : undefined}
             onTimerEnd={handleTimerEnd}
             theme={theme}
             accentHex={palette.accent}
             glowHex={palette.glow ?? palette.accent}
-            sessionId={sessionId}
+            sessionId={session.segmentId}
           />
         </div>
+        {hasEverStarted && reflectFor != null && !showInterruption && (
+          <ReflectionPrompt
+            key={reflectFor}
+            theme={theme}
+            onSubmit={handleReflection}
+            onDismiss={() => setReflectFor(null)}
+          />
+        )}
+        {hasEverStarted && showInterruption && (
+          <InterruptionForm
+            theme={theme}
+            canVoid={session.segment === 'pomodoro'}
+            onSubmit={handleInterruption}
+            onCancel={() => setShowInterruption(false)}
+          />
+        )}
+        {hasEverStarted && session.countUp && (
+          <div className="mb-2 grid grid-cols-2 gap-2">
+            <button
+              className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1.5 rounded`}
+              onClick={() => { if (hapticsEnabled) vibrateShort(); setShowInterruption((v) => !v); }}
+            >Interruption</button>
+            <button
+              className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1.5 rounded`}
+              onClick={() => { if (hapticsEnabled) vibrateShort(); handleSkip(); }}
+            >Take a break ({Math.max(1, Math.round(flowBreakSeconds(config, session.segmentElapsed) / 60))}m)</button>
+          </div>
+        )}
+        {hasEverStarted && !session.countUp && (
+          <div className={`mb-2 grid ${room ? 'grid-cols-1' : 'grid-cols-4'} gap-2`}>
+            {/* The room's schedule sets the segments, so they are not adjusted or skipped */}
+            {!room && (
+              <>
+                <button
+                  className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1.5 rounded`}
+                  onClick={() => { if (hapticsEnabled) vibrateShort(); handleAdjust(-SEGMENT_ADJUST_STEP); }}
+                >-{SEGMENT_ADJUST_STEP / 60}m</button>
+                <button
+                  className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1.5 rounded`}
+                  onClick={() => { if (hapticsEnabled) vibrateShort(); handleAdjust(SEGMENT_ADJUST_STEP); }}
+                >+{SEGMENT_ADJUST_STEP / 60}m</button>
+                <button
+                  className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1.5 rounded`}
+                  onClick={() => { if (hapticsEnabled) vibrateShort(); handleSkip(); }}
+                >Skip</button>
+              </>
+            )}
+            <button
+              className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1.5 rounded`}
+              onClick={() => { if (hapticsEnabled) vibrateShort(); setShowInterruption((v) => !v); }}
+            >Interrupt</button>
+          </div>
+        )}
         <div className="mt-auto">
           <div className="grid grid-flow-col auto-cols-fr gap-2">
             {!isTimerRunning && !hasEverStarted && (
@@ -858,7 +1169,7 @@ function App() {
             {isTimerRunning && (
               <button
                 className={`${theme==='gold' ? 'bg-amber-700 hover:bg-amber-800 text-black' : 'bg-red-600 hover:bg-red-700 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
-                onClick={() => { if (hapticsEnabled) vibrateWarning(); setIsTimerRunning(false); }}
+                onClick={() => { if (hapticsEnabled) vibrateWarning(); pauseTimer(); }}
               >Pause</button>
             )}
             {!isTimerRunning && hasEverStarted && (
@@ -877,48 +1188,62 @@ function App() {
             >Set</button>
             <button
               className={`${theme==='gold' ? 'bg-amber-300 hover:bg-amber-400 text-black' : 'bg-teal-600 hover:bg-teal-700 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
-              onClick={() => { try { writeDiarySnapshot(); } catch {} setShowDiary(true); }}
+              onClick={() => { control({ type: 'snapshot' }); setShowDiary(true); }}
             >Diary</button>
+            <button
+              className={`${theme==='gold' ? 'bg-amber-200 hover:bg-amber-300 text-black' : 'bg-indigo-600 hover:bg-indigo-700 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
+              onClick={() => { if (hapticsEnabled) vibrateShort(); setShowTasks(true); }}
+            >Tasks</button>
+            {userId && (
+              <button
+                className={`${theme==='gold' ? 'bg-orange-300 hover:bg-orange-400 text-black' : 'bg-cyan-700 hover:bg-cyan-800 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
+                onClick={() => { if (hapticsEnabled) vibrateShort(); setShowRoom(true); }}
+              >Room</button>
+            )}
             {userId && (
               <button
                 className={`${theme==='gold' ? 'bg-emerald-500 hover:bg-emerald-600 text-black' : 'bg-emerald-600 hover:bg-emerald-700 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
                 onClick={handleSyncNow}
-              >Sync now</button>
+                title={outboxCounts.failed > 0 ? 'Some changes could not be uploaded; Sync now retries them' : undefined}
+              >
+                Sync now
+                {(outboxCounts.pending > 0 || outboxCounts.failed > 0) && (
+                  <span className="block text-[10px] font-normal">
+                    {[outboxCounts.pending > 0 && `${outboxCounts.pending} pending`, outboxCounts.failed > 0 && `${outboxCounts.failed} failed`].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+              </button>
             )}
-            {!userId ? (
+            {syncBackend && (!userId ? (
               <button
                 className={`${theme==='gold' ? 'bg-gray-900 hover:bg-black text-white' : 'bg-gray-800 hover:bg-gray-700 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
-                onClick={async () => { try { await signInWithGoogle(); } catch {} }}
-              >Sign in with Google</button>
+                onClick={async () => { try { await syncBackend?.signIn(); } catch { /* ignore */ } }}
+              >{syncBackend.signInLabel}</button>
             ) : (
               <button
                 className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-black' : 'bg-gray-700 hover:bg-gray-600 text-white'} font-bold py-2 rounded focus:outline-none focus:ring-2 focus:ring-offset-2 ${theme==='gold' ? 'focus:ring-amber-400 focus:ring-offset-gray-200' : 'focus:ring-blue-400 focus:ring-offset-gray-900'}`}
-                onClick={async () => { try { await logout(); setUserId(null); } catch {} }}
+                onClick={async () => { try { await syncBackend?.signOut(); setUserId(null); } catch { /* ignore */ } }}
               >Logout</button>
-            )}
+            ))}
           </div>
           <div className="mt-3 grid grid-cols-1 gap-3 text-xs">
             <WorkdayProgress
-              totalWorkdayDuration={workdayDuration}
-              elapsedWorkdayTime={elapsedWorkdayTime}
-              mode={runMode}
-              targetCycles={targetCycles}
+              totalWorkdayDuration={config.workday}
+              elapsedWorkdayTime={counters.elapsed}
+              mode={config.mode}
+              targetCycles={cyclesTarget}
               pomodorosCompleted={pomodorosCompleted}
               theme={theme}
-              cumulativeActiveSec={cumulativeActiveSec}
-              cumulativeBreakSec={cumulativeBreakSec}
+              cumulativeActiveSec={counters.active}
+              cumulativeBreakSec={counters.brk}
+              goals={progress}
             />
             <SchedulePreview
-              currentType={currentTimerType}
-              pomodoroSeconds={pomodoroDuration}
-              shortBreakSeconds={shortBreakDuration}
-              longBreakSeconds={longBreakDuration}
-              longEvery={longEvery}
-              remainingPomodoros={runMode==='cycles' ? (targetCycles - pomodorosCompleted) : null}
-              totalSecondsLeft={runMode==='workday' ? (workdayDuration - elapsedWorkdayTime) : null}
+              plan={plan}
+              remainingPomodoros={config.mode==='cycles' ? (cyclesTarget - pomodorosCompleted) : null}
+              totalSecondsLeft={config.mode==='workday' ? (config.workday - counters.elapsed) : null}
+              focusBlocks={config.mode==='flowtime' ? pomodorosCompleted : null}
               theme={theme}
-              scheduleType={scheduleType}
-              pomodorosCompleted={pomodorosCompleted}
             />
           </div>
         </div>
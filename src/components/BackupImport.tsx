@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { applyBackup, parseBackup, previewBackup, type BackupCheck, type BackupPreview, type KeyDiff, type RestoreMode } from '../utils/backup';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface BackupImportProps {
+  theme?: Theme;
+  buttonClass: string;
+}
+
+const describe = (label: string, d: KeyDiff, showKeys = false) => {
+  const parts: string[] = [];
+  const list = (keys: string[]) => (showKeys && keys.length <= 5 ? ` (${keys.join(', ')})` : '');
+  if (d.added.length) parts.push(`${d.added.length} added${list(d.added)}`);
+  if (d.overwritten.length) parts.push(`${d.overwritten.length} overwritten${list(d.overwritten)}`);
+  if (d.removed.length) parts.push(`${d.removed.length} removed${list(d.removed)}`);
+  return `${label}: ${parts.length ? parts.join(', ') : 'no changes'}`;
+};
+
+// Restore a JSON export: pick a file, review what changes, then merge or replace
+const BackupImport: React.FC<BackupImportProps> = ({ theme = 'blue', buttonClass }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [check, setCheck] = useState<BackupCheck | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const isLight = theme === 'gold';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300 text-gray-800' : 'bg-black/30 border-gray-700 text-gray-200';
+  const segActive = isLight ? 'bg-amber-500 text-black' : 'bg-blue-600 text-white';
+  const segInactive = isLight ? 'bg-gray-200 text-gray-900' : 'bg-gray-600 text-gray-100';
+
+  useEffect(() => {
+    setPreview(null);
+    if (!check?.backup) return;
+    let cancelled = false;
+    previewBackup(check.backup, mode)
+      .then((p) => { if (!cancelled) setPreview(p); })
+      .catch(() => { /* ignore */ });
+    return () => { cancelled = true; };
+  }, [check, mode]);
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setMode('merge');
+    setCheck(parseBackup(await file.text()));
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const close = () => setCheck(null);
+
+  const apply = async () => {
+    if (!check?.backup || !preview) return;
+    if (mode === 'replace' && !window.confirm('Replace all local data with this backup? Local-only entries will be lost.')) return;
+    setApplying(true);
+    try {
+      await applyBackup(check.backup, mode);
+    } catch {
+      window.alert('Could not write the backup to storage');
+      return;
+    } finally {
+      setApplying(false);
+    }
+    close();
+    // Profiles, timer settings and preferences are read at startup
+    const needsReload = preview.settings || preview.profiles.added.length + preview.profiles.overwritten.length + preview.profiles.removed.length > 0;
+    if (needsReload && window.confirm('Backup restored. Reload now to apply the restored profiles and settings?')) {
+      window.location.reload();
+    }
+  };
+
+  return (
+    <>
+      <button className={buttonClass} onClick={() => fileRef.current?.click()}>Import JSON</button>
+      <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => onFile(e.target.files?.[0])} />
+      {check && (
+        <div className={`basis-full border rounded p-2 text-xs text-left ${cardClass}`}>
+          <div className="font-semibold mb-1">Import {fileName}</div>
+          {check.errors.map((e) => <div key={e} className="text-red-400">{e}</div>)}
+          {check.backup && !preview && <div className="opacity-80">Comparing with local data…</div>}
+          {check.backup && preview && (
+            <>
+              <div className="opacity-80 mb-2">
+                Exported {check.backup.exportedAt ? new Date(check.backup.exportedAt).toLocaleString() : 'at an unknown time'} · {check.backup.sessions.length} session(s)
+              </div>
+              <div className="inline-grid grid-cols-2 rounded-md overflow-hidden mb-2">
+                <button className={`px-3 py-1 ${mode === 'merge' ? segActive : segInactive}`} onClick={() => setMode('merge')}>Merge</button>
+                <button className={`px-3 py-1 ${mode === 'replace' ? segActive : segInactive}`} onClick={() => setMode('replace')}>Replace</button>
+              </div>
+              <div className="opacity-80 mb-1">
+                {mode === 'merge'
+                  ? 'Keeps local data; the backup wins where both have the same entry. Settings are only restored if none are saved here.'
+                  : 'Makes this device match the backup, including settings and preferences.'}
+              </div>
+              <ul className="list-disc pl-4 space-y-0.5">
+                <li>{describe('Sessions', preview.sessions)}</li>
+                <li>{describe('Diary days', preview.diaryDays, true)}</li>
+                <li>{describe('Profiles', preview.profiles, true)}</li>
+                <li>{describe('Tasks', preview.tasks)}</li>
+                <li>Settings, goals and preferences: {preview.settings ? 'will change' : 'no changes'}</li>
+              </ul>
+            </>
+          )}
+          {check.warnings.map((w) => <div key={w} className="mt-1 text-amber-400">{w}</div>)}
+          <div className="mt-2 flex justify-end gap-2">
+            <button className={buttonClass} onClick={close}>Cancel</button>
+            {check.backup && <button className={buttonClass} onClick={apply} disabled={!preview || applying}>Apply</button>}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default BackupImport;
@@ -1,5 +1,20 @@
 import React, { useMemo } from 'react';
-import { STORAGE } from '../utils/constants';
+import { readTasks, type Task } from '../utils/tasks';
+import { deleteSessions, loadSessionProfiles, loadSessionsBetween, querySessions, saveSessions, type SessionRecord } from '../utils/sessions';
+import { loadDiaryDay, type DiaryStore } from '../utils/diary';
+import { outbox } from '../services/sync';
+import SessionEditor from './SessionEditor';
+import DiaryCharts from './DiaryCharts';
+import BackupImport from './BackupImport';
+import IcsExport from './IcsExport';
+import TimeImport from './TimeImport';
+import { getTodayKeyLocal } from '../utils/dates';
+import { dayMetGoal, goalSessions, readGoals } from '../utils/goals';
+import { heatmapDayKeys, lastDayKeys, totalsByDay } from '../utils/stats';
+import { sessionsToCsv } from '../utils/csv';
+import { buildBackup } from '../utils/backup';
+import { downloadFile } from '../utils/download';
+import type { Interruption, SegmentAdjustment } from '../utils/sessionEngine';
 
 type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
 
@@ -10,37 +25,10 @@ interface DiaryProps {
   currentElapsed?: number;
   currentPoms?: number;
   currentProfile?: string;
+  currentInterruptions?: Interruption[];
+  userId?: string | null; // when signed in, edits and deletions are pushed to the cloud
 }
 
-type DiaryEntry = {
-  active: number;
-  brk: number;
-  short?: number;
-  long?: number;
-  poms?: number;
-  elapsed?: number;
-  ts?: number;
-  byProfile?: Record<string, { active: number; brk: number; poms?: number }>;
-  _baseActive?: number;
-  _baseBreak?: number;
-  _baseShort?: number;
-  _baseLong?: number;
-  _basePoms?: number;
-};
-
-type SessionRecord = {
-  id: string;
-  dateKey: string;
-  profile: string;
-  active: number;
-  break: number;
-  short: number;
-  long: number;
-  pomodoros: number;
-  startedAt: number;
-  endedAt: number;
-  mode: 'workday' | 'cycles';
-};
 
 function formatMinSec(total: number): string {
   const h = Math.floor(total / 3600);
@@ -49,34 +37,107 @@ function formatMinSec(total: number): string {
   return `${h.toString().padStart(2,'0')}:${m.toString().padStart(2,'0')}:${s.toString().padStart(2, '0')}`;
 }
 
-type Entries = Record<string, DiaryEntry>;
+// Short summary of manual extend/shorten/skip actions, e.g. "Extended +10m · Skipped 1"
+function describeAdjustments(adjustments: SegmentAdjustment[] | undefined): string {
+  if (!adjustments || adjustments.length === 0) return '';
+  const mins = (sec: number) => `${Math.round(Math.abs(sec) / 60)}m`;
+  const extended = adjustments.filter(a => a.kind === 'extend').reduce((acc, a) => acc + a.seconds, 0);
+  const shortened = adjustments.filter(a => a.kind === 'shorten').reduce((acc, a) => acc + a.seconds, 0);
+  const skipped = adjustments.filter(a => a.kind === 'skip').length;
+  const parts: string[] = [];
+  if (extended > 0) parts.push(`Extended +${mins(extended)}`);
+  if (shortened < 0) parts.push(`Shortened -${mins(shortened)}`);
+  if (skipped > 0) parts.push(`Skipped ${skipped}`);
+  return parts.join(' · ');
+}
+
+// Actual focus block lengths of a flowtime session, e.g. "Focus 3 blocks · avg 42m · longest 1h 10m"
+function describeFocusBlocks(s: SessionRecord): string {
+  if (s.mode !== 'flowtime') return '';
+  const blocks = (s.segments ?? []).filter(seg => seg.type === 'pomodoro').map(seg => seg.seconds);
+  if (blocks.length === 0) return '';
+  const mins = (sec: number) => {
+    const m = Math.round(sec / 60);
+    return m >= 60 ? `${Math.floor(m / 60)}h ${m % 60}m` : `${m}m`;
+  };
+  const avg = blocks.reduce((acc, b) => acc + b, 0) / blocks.length;
+  return `Focus ${blocks.length} block${blocks.length === 1 ? '' : 's'} · avg ${mins(avg)} · longest ${mins(Math.max(...blocks))}`;
+}
+
+// e.g. "Interrupted 3× (2 external · 1 internal) · 1 voided"
+function describeInterruptions(interruptions: Interruption[] | undefined): string {
+  if (!interruptions || interruptions.length === 0) return '';
+  const external = interruptions.filter(i => i.kind === 'external').length;
+  const internal = interruptions.length - external;
+  const voided = interruptions.filter(i => i.voided).length;
+  const kinds = [external > 0 ? `${external} external` : '', internal > 0 ? `${internal} internal` : ''].filter(Boolean).join(' · ');
+  return `Interrupted ${interruptions.length}× (${kinds})${voided > 0 ? ` · ${voided} voided` : ''}`;
+}
+
+const clock = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getHours().toString().padStart(2,'0')}:${d.getMinutes().toString().padStart(2,'0')}`;
+};
+
+type InterruptionTotals = { internal: number; external: number; voided: number };
+
+const countInterruptions = (acc: InterruptionTotals, list: Interruption[] | undefined): InterruptionTotals => {
+  (list ?? []).forEach((i) => {
+    if (i.kind === 'external') acc.external += 1; else acc.internal += 1;
+    if (i.voided) acc.voided += 1;
+  });
+  return acc;
+};
 
-const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak = 0, currentElapsed = 0, currentPoms = 0, currentProfile }) => {
+type Entries = DiaryStore;
+
+const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak = 0, currentElapsed = 0, currentPoms = 0, currentProfile, currentInterruptions = [], userId }) => {
   const [refreshKey, setRefreshKey] = React.useState(0);
+  const [tasks, setTasks] = React.useState<Task[]>(() => readTasks());
   
-  // Listen for Diary updates
+  // Listen for Diary updates; a restored backup may also bring its own tasks
   React.useEffect(() => {
     const handleDiaryUpdate = () => {
       setRefreshKey(prev => prev + 1);
+      setTasks(readTasks());
     };
+    const handleRestore = () => setTasks(readTasks());
     
     window.addEventListener('diary-updated', handleDiaryUpdate);
-    return () => window.removeEventListener('diary-updated', handleDiaryUpdate);
+    window.addEventListener('backup-restored', handleRestore);
+    return () => {
+      window.removeEventListener('diary-updated', handleDiaryUpdate);
+      window.removeEventListener('backup-restored', handleRestore);
+    };
   }, []);
   
-  const entries = useMemo<Entries>(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE.DIARY);
-      if (!raw) return {} as Entries;
-      return JSON.parse(raw) as Entries;
-    } catch {
-      return {} as Entries;
-    }
-  }, [refreshKey]);
+  const [range, setRange] = React.useState<'today' | '7' | '30' | 'all'>('7');
+  const [profileFilter, setProfileFilter] = React.useState<string>('all');
+  const now = new Date();
+  const todayKey = getTodayKeyLocal(now);
+
+  // Stored sessions are reloaded when they change, not on every live tick: the heatmap's
+  // year, which also covers the shorter ranges, or the whole history for 'all'. Of the
+  // stored days only today's is read, for its live baselines.
+  const [entries, setEntries] = React.useState<Entries>({});
+  const [sessions, setSessions] = React.useState<SessionRecord[]>([]);
+  const [allProfiles, setAllProfiles] = React.useState<string[]>([]);
+  const loadAll = range === 'all';
+  React.useEffect(() => {
+    let cancelled = false;
+    const from = loadAll ? '0000-00-00' : heatmapDayKeys()[0];
+    Promise.all([loadDiaryDay(todayKey), loadSessionsBetween(from, '9999-12-31'), loadSessionProfiles()])
+      .then(([day, recs, profiles]) => {
+        if (cancelled) return;
+        setEntries(day ? { [todayKey]: day } : {});
+        setSessions(recs);
+        setAllProfiles(profiles);
+      })
+      .catch(() => { /* ignore */ });
+    return () => { cancelled = true; };
+  }, [refreshKey, loadAll, todayKey]);
 
   // Merge today's live counters as a virtual entry
-  const now = new Date();
-  const todayKey = `${now.getFullYear()}-${(now.getMonth()+1).toString().padStart(2,'0')}-${now.getDate().toString().padStart(2,'0')}`;
   const merged: Entries = { ...entries };
   const todayBase = merged[todayKey] || { active: 0, brk: 0, short: 0, long: 0, poms: 0, elapsed: 0, byProfile: {}, _baseActive: 0, _baseBreak: 0, _baseShort: 0, _baseLong: 0, _basePoms: 0 };
   const resActive = Math.max(0, currentActive - (todayBase._baseActive || 0));
@@ -107,38 +168,40 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
     merged[todayKey].byProfile = bp;
   }
 
-  const [range, setRange] = React.useState<'today' | '7' | '30' | 'all'>('7');
-  const [profileFilter, setProfileFilter] = React.useState<string>('all');
-
-  // Forza il re-render quando cambiano i contatori live
-  React.useEffect(() => {
-    setRefreshKey(prev => prev + 1);
-  }, [currentActive, currentBreak, currentElapsed, currentPoms]);
-
-  // Aggiornamento forzato ogni 500ms quando il timer è in esecuzione
-  React.useEffect(() => {
-    let interval: number | null = null;
-    if (currentActive > 0 || currentBreak > 0) {
-      interval = window.setInterval(() => {
-        setRefreshKey(prev => prev + 1);
-      }, 500); // Aggiorna ogni 500ms per assicurarsi che i contatori si aggiornino ogni secondo
-    }
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [currentActive, currentBreak]);
-
   const headingClass = theme === 'gold' ? 'text-amber-700' : 'text-sky-300';
   const rowText = theme === 'gold' ? 'text-gray-800' : 'text-gray-200';
   const cardClass = theme === 'gold' ? 'bg-white/70 border-gray-300' : 'bg-black/30 border-gray-700';
 
-  // Recupera sessioni e calcola top profile
-  const sessions = useMemo<SessionRecord[]>(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE.SESSIONS);
-      return raw ? (JSON.parse(raw) as SessionRecord[]) : [];
-    } catch { return []; }
-  }, []);
+  // Manual add/edit/delete of session records
+  const [editing, setEditing] = React.useState<SessionRecord | 'new' | null>(null);
+
+  const afterWrite = (write: Promise<void>) => {
+    void write.then(() => window.dispatchEvent(new CustomEvent('diary-updated'))).catch(() => { /* ignore */ });
+  };
+
+  const saveEditedSession = (rec: SessionRecord) => {
+    afterWrite(saveSessions([rec]));
+    setEditing(null);
+    // The cloud copy has the same id
+    if (userId) void outbox.enqueue({ kind: 'save', userId, session: rec }).catch(() => { /* ignore */ });
+  };
+
+  const removeSession = (rec: SessionRecord) => {
+    if (!confirm('Delete this session?')) return;
+    afterWrite(deleteSessions([rec.id]));
+    if (userId) void outbox.enqueue({ kind: 'delete', userId, sessionId: rec.id }).catch(() => { /* ignore */ });
+  };
+
+  const importSessions = (recs: SessionRecord[]) => {
+    afterWrite(saveSessions(recs));
+    if (!userId) return;
+    recs.forEach((rec) => { void outbox.enqueue({ kind: 'save', userId, session: rec }).catch(() => { /* ignore */ }); });
+  };
+
+  const taskTitles = useMemo<Record<string, string>>(
+    () => Object.fromEntries(tasks.map(t => [t.id, t.title])),
+    [tasks],
+  );
 
   // Compute per-day totals from sessions and merge today's live counters
   const byDay: Record<string, { active: number; brk: number; poms: number }> = {};
@@ -173,7 +236,6 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
       poms: todayTotals.poms + Math.max(0, currentPoms || 0),
     };
   }
-  const allProfiles = useMemo<string[]>(() => Array.from(new Set(sessions.map(s => s.profile))).sort(), [sessions]);
   const sessionsInRange = sessions.filter((s) => {
     if (range === 'all') return true;
     if (range === 'today') return s.dateKey === todayKey;
@@ -183,21 +245,46 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
     return diffDays < Number(range);
   }).sort((a,b) => b.endedAt - a.endedAt);
   const sessionsFiltered = sessionsInRange.filter(s => profileFilter === 'all' ? true : s.profile === profileFilter);
+  const sessionsForProfile = useMemo(
+    () => sessions.filter(s => profileFilter === 'all' || s.profile === profileFilter),
+    [sessions, profileFilter],
+  );
+  // Days that met the daily goal (goal profile applies, not the Diary filter)
+  const goalDays = useMemo<Set<string>>(() => {
+    const goals = readGoals();
+    const byGoalDay = totalsByDay(goalSessions(sessions, goals));
+    return new Set(Object.keys(byGoalDay).filter(k => dayMetGoal(byGoalDay[k], goals)));
+  }, [sessions]);
   // Pagination for Completed Sessions
   const PAGE_SIZE = 20;
   const [page, setPage] = React.useState(1);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
   React.useEffect(() => { setPage(1); }, [range, profileFilter]);
-  const totalPages = Math.max(1, Math.ceil(sessionsFiltered.length / PAGE_SIZE));
+  // The table pages through IndexedDB instead of slicing the whole history
+  const [pageData, setPageData] = React.useState<{ rows: SessionRecord[]; total: number }>({ rows: [], total: 0 });
+  React.useEffect(() => {
+    let cancelled = false;
+    const from = range === 'today' ? todayKey : range === 'all' ? '0000-00-00' : lastDayKeys(Number(range))[0];
+    querySessions({
+      from,
+      to: range === 'today' ? todayKey : '9999-12-31',
+      profile: profileFilter === 'all' ? undefined : profileFilter,
+      offset: (page - 1) * PAGE_SIZE,
+      limit: PAGE_SIZE,
+    })
+      .then((data) => { if (!cancelled) setPageData(data); })
+      .catch(() => { /* ignore */ });
+    return () => { cancelled = true; };
+  }, [range, profileFilter, page, todayKey, refreshKey]);
+  const totalPages = Math.max(1, Math.ceil(pageData.total / PAGE_SIZE));
   const startIdx = (page - 1) * PAGE_SIZE;
-  const endIdx = Math.min(sessionsFiltered.length, startIdx + PAGE_SIZE);
-  const pagedSessions = sessionsFiltered.slice(startIdx, endIdx);
+  const endIdx = Math.min(pageData.total, startIdx + pageData.rows.length);
+  const pagedSessions = pageData.rows;
   const totals = sessionsFiltered.reduce((acc, s) => {
-    const active = Math.max(0, (s as any).active ?? 0);
-    const brk = Math.max(0, (s as any).break ?? (s as any).brk ?? 0);
-    acc.active += active;
-    acc.brk += brk;
+    acc.active += s.active;
+    acc.brk += s.break;
     // Total Pomodoros: sum exact pomodoros per session record
-    acc.poms += Math.max(0, (s as any).pomodoros ?? 0);
+    acc.poms += s.pomodoros;
     return acc;
   }, { active: 0, brk: 0, poms: 0 });
   // Add today's live counters to totals view, respecting profile filter
@@ -254,6 +341,39 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
   }, null);
   // totalOverall computed above
 
+  // CSV follows the range/profile filters; JSON is a full backup
+  const exportCsv = () => {
+    const rows = [...sessionsFiltered].sort((a, b) => a.startedAt - b.startedAt);
+    downloadFile(`tempo-sessions-${todayKey}.csv`, sessionsToCsv(rows, taskTitles), 'text/csv;charset=utf-8');
+  };
+  const exportJson = () => {
+    void buildBackup().then((backup) => downloadFile(`tempo-backup-${todayKey}.json`, JSON.stringify(backup, null, 2), 'application/json'));
+  };
+  const exportBtnClass = `${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1 px-2 rounded`;
+
+  // Interruptions per day and per profile, including the running session
+  const emptyInterruptions = (): InterruptionTotals => ({ internal: 0, external: 0, voided: 0 });
+  const interruptionsByDay: Record<string, InterruptionTotals> = {};
+  const interruptionsByProfile: Record<string, InterruptionTotals> = {};
+  sessionsFiltered.forEach((s) => {
+    interruptionsByDay[s.dateKey] = countInterruptions(interruptionsByDay[s.dateKey] || emptyInterruptions(), s.interruptions);
+    interruptionsByProfile[s.profile] = countInterruptions(interruptionsByProfile[s.profile] || emptyInterruptions(), s.interruptions);
+  });
+  if (shouldAddLive && currentProfile && currentInterruptions.length > 0) {
+    interruptionsByDay[todayKey] = countInterruptions(interruptionsByDay[todayKey] || emptyInterruptions(), currentInterruptions);
+    interruptionsByProfile[currentProfile] = countInterruptions(interruptionsByProfile[currentProfile] || emptyInterruptions(), currentInterruptions);
+  }
+  const interruptionDays = Object.keys(interruptionsByDay)
+    .filter(k => interruptionsByDay[k].internal + interruptionsByDay[k].external > 0)
+    .sort((a, b) => b.localeCompare(a));
+  const interruptionProfiles = Object.keys(interruptionsByProfile)
+    .filter(k => interruptionsByProfile[k].internal + interruptionsByProfile[k].external > 0)
+    .sort((a, b) => {
+      const ta = interruptionsByProfile[a].internal + interruptionsByProfile[a].external;
+      const tb = interruptionsByProfile[b].internal + interruptionsByProfile[b].external;
+      return tb - ta;
+    });
+
   return (
     <div className="h-full overflow-auto">
       <div className="flex items-center justify-between mb-3">
@@ -276,6 +396,14 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
         </div>
       </div>
 
+      <div className="flex flex-wrap justify-end gap-2 mb-3">
+        <button className={exportBtnClass} onClick={exportCsv} disabled={sessionsFiltered.length === 0}>Export CSV</button>
+        <IcsExport theme={theme} profile={profileFilter === 'all' ? undefined : profileFilter} taskTitles={taskTitles} buttonClass={exportBtnClass} />
+        <button className={exportBtnClass} onClick={exportJson}>Export JSON</button>
+        <BackupImport theme={theme} buttonClass={exportBtnClass} />
+        <TimeImport theme={theme} buttonClass={exportBtnClass} profiles={allProfiles} defaultProfile={currentProfile} onImport={importSessions} />
+      </div>
+
       {/* Dashboard semplificata */}
       <div className={`grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3`}>
         <div className={`border rounded p-3 ${cardClass}`}>
@@ -296,10 +424,95 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
         </div>
       </div>
 
+      {/* Charts, from saved sessions only */}
+      <DiaryCharts theme={theme} sessions={sessionsForProfile} rangeSessions={sessionsFiltered} range={range} goalDays={goalDays} />
+
+      {/* Tasks: estimate vs. actual pomodoros */}
+      {tasks.length > 0 && (
+        <div className={`border rounded p-2 mb-3 ${cardClass}`}>
+          <div className={`text-sm font-semibold ${rowText}`}>Tasks</div>
+          <div className={`mt-2 grid grid-cols-4 gap-2 text-[11px] font-semibold ${rowText} mb-1 text-center`}>
+            <div className="text-left">Task</div>
+            <div>Estimate</div>
+            <div>Actual</div>
+            <div>Difference</div>
+          </div>
+          {tasks.map((t) => {
+            const diff = t.actual - t.estimate;
+            return (
+              <div key={t.id} className={`grid grid-cols-4 gap-2 text-xs ${rowText} text-center ${t.done ? 'opacity-60' : ''}`}>
+                <div className={`text-left truncate ${t.done ? 'line-through' : ''}`}>{t.title}</div>
+                <div className="font-mono">{t.estimate}</div>
+                <div className="font-mono">{t.actual}</div>
+                <div className={`font-mono ${diff > 0 ? 'text-red-400' : ''}`}>{diff > 0 ? `+${diff}` : diff}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Interruptions */}
+      {interruptionDays.length > 0 && (
+        <div className={`border rounded p-2 mb-3 ${cardClass}`}>
+          <div className={`text-sm font-semibold ${rowText}`}>Interruptions</div>
+          <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <div className={`grid grid-cols-4 gap-2 text-[11px] font-semibold ${rowText} mb-1 text-center`}>
+                <div>Day</div>
+                <div>External</div>
+                <div>Internal</div>
+                <div>Voided</div>
+              </div>
+              {interruptionDays.map((day) => (
+                <div key={day} className={`grid grid-cols-4 gap-2 text-xs ${rowText} text-center font-mono`}>
+                  <div>{day}</div>
+                  <div>{interruptionsByDay[day].external}</div>
+                  <div>{interruptionsByDay[day].internal}</div>
+                  <div>{interruptionsByDay[day].voided}</div>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className={`grid grid-cols-4 gap-2 text-[11px] font-semibold ${rowText} mb-1 text-center`}>
+                <div>Profile</div>
+                <div>External</div>
+                <div>Internal</div>
+                <div>Voided</div>
+              </div>
+              {interruptionProfiles.map((name) => (
+                <div key={name} className={`grid grid-cols-4 gap-2 text-xs ${rowText} text-center`}>
+                  <div className="font-semibold truncate">{name}</div>
+                  <div className="font-mono">{interruptionsByProfile[name].external}</div>
+                  <div className="font-mono">{interruptionsByProfile[name].internal}</div>
+                  <div className="font-mono">{interruptionsByProfile[name].voided}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Session list */}
       <div className={`border rounded p-2 ${cardClass}`}>
-        <div className={`text-sm font-semibold ${rowText}`}>Completed Sessions</div>
+        <div className="flex items-center justify-between">
+          <div className={`text-sm font-semibold ${rowText}`}>Completed Sessions</div>
+          <button
+            className={`${theme==='gold' ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} text-xs font-semibold py-1 px-2 rounded`}
+            onClick={() => setEditing('new')}
+          >Add session</button>
+        </div>
         <div className="mt-2">
+          {editing && (
+            <SessionEditor
+              key={editing === 'new' ? 'new' : editing.id}
+              theme={theme}
+              session={editing === 'new' ? undefined : editing}
+              profiles={allProfiles}
+              defaultProfile={currentProfile}
+              onSave={saveEditedSession}
+              onCancel={() => setEditing(null)}
+            />
+          )}
           <div className={`hidden sm:grid grid-cols-6 gap-2 text-[11px] font-semibold ${rowText} mb-2 text-center`}>
             <div>Pomodoros</div>
             <div>Activity</div>
@@ -309,16 +522,23 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
             <div>Date/Stop</div>
           </div>
           
-          {sessionsFiltered.length === 0 && (
+          {pageData.total === 0 && (
             <div className={`text-xs ${rowText}`}>No sessions</div>
           )}
           
           {pagedSessions.map((s, idx) => {
-            const active = Math.max(0, (s as any).active ?? 0);
-            const brk = Math.max(0, (s as any).break ?? (s as any).brk ?? 0);
+            const active = s.active;
+            const brk = s.break;
             const total = active + brk;
             const ended = new Date(s.endedAt);
             const timeStr = `${ended.getHours().toString().padStart(2,'0')}:${ended.getMinutes().toString().padStart(2,'0')}`;
+            const adjustmentsLabel = describeAdjustments(s.adjustments);
+            const focusLabel = describeFocusBlocks(s);
+            const interruptionsLabel = describeInterruptions(s.interruptions);
+            const taskTitle = s.taskId ? taskTitles[s.taskId] : undefined;
+            const pomodoroLogs = (s.segments ?? []).filter(seg => seg.type === 'pomodoro');
+            const hasDetails = pomodoroLogs.length > 0 || (s.interruptions ?? []).length > 0;
+            const expanded = expandedId === s.id;
             const zebra = theme === 'gold'
               ? (idx % 2 === 0 ? 'bg-white/80' : 'bg-white/60')
               : (idx % 2 === 0 ? 'bg-black/40' : 'bg-black/25');
@@ -333,6 +553,9 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
                   <div>
                     <div className="sm:hidden opacity-70">Activity</div>
                     <div className="text-sm font-semibold">{s.profile}</div>
+                    {(s.source || s.editedAt) && (
+                      <div className="text-[10px] uppercase opacity-70">{s.source === 'manual' ? 'Manual' : s.source === 'imported' ? 'Imported' : 'Edited'}</div>
+                    )}
                   </div>
                   <div>
                     <div className="sm:hidden opacity-70">Total</div>
@@ -351,15 +574,59 @@ const Diary: React.FC<DiaryProps> = ({ theme, currentActive = 0, currentBreak =
                     <div className="font-mono text-sm">{s.dateKey} {timeStr}</div>
                   </div>
                 </div>
+                {taskTitle && (
+                  <div className="mt-1 text-[11px] opacity-70 text-center">Task: {taskTitle}</div>
+                )}
+                {focusLabel && (
+                  <div className="mt-1 text-[11px] opacity-70 text-center">{focusLabel}</div>
+                )}
+                {adjustmentsLabel && (
+                  <div className="mt-1 text-[11px] opacity-70 text-center">{adjustmentsLabel}</div>
+                )}
+                {interruptionsLabel && (
+                  <div
+                    className="mt-1 text-[11px] opacity-70 text-center"
+                    title={(s.interruptions ?? []).filter(i => i.note).map(i => `${i.kind}: ${i.note}`).join('\n') || undefined}
+                  >{interruptionsLabel}</div>
+                )}
+                <div className="mt-1 flex justify-center gap-3">
+                  {hasDetails && (
+                    <button className="text-[11px] underline opacity-80" onClick={() => setExpandedId(expanded ? null : s.id)}>
+                      {expanded ? 'Hide details' : 'Show details'}
+                    </button>
+                  )}
+                  <button className="text-[11px] underline opacity-80" onClick={() => setEditing(s)}>Edit</button>
+                  <button className="text-[11px] underline opacity-80" onClick={() => removeSession(s)}>Delete</button>
+                </div>
+                {expanded && (
+                  <div className="mt-2 space-y-1 text-[11px]">
+                    {pomodoroLogs.map((seg, i) => (
+                      <div key={seg.startedAt} className={`flex gap-2 ${seg.voided ? 'opacity-50 line-through' : ''}`}>
+                        <span className="font-mono">#{i + 1}</span>
+                        <span className="font-mono">{clock(seg.startedAt)}–{clock(seg.endedAt)}</span>
+                        <span className="font-mono">{Math.round(seg.seconds / 60)}m</span>
+                        {seg.rating != null && <span title="Focus rating">{'★'.repeat(seg.rating)}{'☆'.repeat(5 - seg.rating)}</span>}
+                        {seg.note && <span className="flex-1 break-words">{seg.note}</span>}
+                      </div>
+                    ))}
+                    {(s.interruptions ?? []).map((it) => (
+                      <div key={`i-${it.at}`} className="flex gap-2 opacity-80">
+                        <span className="font-mono">{clock(it.at)}</span>
+                        <span>{it.kind === 'external' ? 'External' : 'Internal'} interruption{it.voided ? ' (voided)' : ''}</span>
+                        {it.note && <span className="flex-1 break-words">{it.note}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })}
 
           {/* Pagination controls */}
-          {sessionsFiltered.length > 0 && (
+          {pageData.total > 0 && (
             <div className="flex items-center justify-between mt-3">
               <div className={`text-[11px] ${rowText}`}>
-                Showing {sessionsFiltered.length === 0 ? 0 : (startIdx + 1)}–{endIdx} of {sessionsFiltered.length}
+                Showing {startIdx + 1}–{endIdx} of {pageData.total}
               </div>
               <div className="flex items-center gap-2">
                 <button
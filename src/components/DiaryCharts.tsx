@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { THEMES } from '../utils/constants';
+import { getTodayKeyLocal } from '../utils/dates';
+import { emptyDayTotals, heatmapDayKeys, lastDayKeys, totalsByDay, totalsByProfile } from '../utils/stats';
+import type { SessionRecord } from '../utils/sessions';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface DiaryChartsProps {
+  theme: Theme;
+  sessions: SessionRecord[];   // sessions of the heatmap's year at least, profile filter applied
+  rangeSessions: SessionRecord[]; // sessions in the selected range (per-profile chart)
+  range: 'today' | '7' | '30' | 'all';
+  goalDays?: Set<string>; // days that met the daily goal, highlighted
+}
+
+const MAX_BAR_DAYS = 365;
+const SHORT_COLOR = '#10b981';
+const LONG_COLOR = '#f59e0b';
+
+// Heatmap intensity from active minutes: 0 = none, 4 = two hours or more
+const heatLevel = (activeSec: number): number => {
+  const min = activeSec / 60;
+  if (min <= 0) return 0;
+  if (min < 30) return 1;
+  if (min < 60) return 2;
+  if (min < 120) return 3;
+  return 4;
+};
+
+const hm = (sec: number) => `${Math.floor(sec / 3600)}h ${Math.floor((sec % 3600) / 60)}m`;
+
+const DiaryCharts: React.FC<DiaryChartsProps> = ({ theme, sessions, rangeSessions, range, goalDays }) => {
+  const isLight = theme === 'gold';
+  const rowText = isLight ? 'text-gray-800' : 'text-gray-200';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300' : 'bg-black/30 border-gray-700';
+  const emptyCell = isLight ? '#e5e7eb' : '#1f2937';
+  const accent = THEMES[theme].accent;
+  const goalRing = isLight ? '#b45309' : '#facc15';
+
+  const byDay = useMemo(() => totalsByDay(sessions), [sessions]);
+
+  const heatmapDays = useMemo(() => heatmapDayKeys(), []);
+
+  const barDays = useMemo(() => {
+    if (range === 'today') return [getTodayKeyLocal()];
+    if (range !== 'all') return lastDayKeys(Number(range));
+    const first = Object.keys(byDay).sort()[0];
+    if (!first) return lastDayKeys(1);
+    const span = Math.floor((Date.now() - new Date(first + 'T00:00:00').getTime()) / 86400000) + 1;
+    return lastDayKeys(Math.min(MAX_BAR_DAYS, Math.max(1, span)));
+  }, [range, byDay]);
+  const maxBar = Math.max(1, ...barDays.map((k) => byDay[k]?.active ?? 0));
+
+  const byProfile = useMemo(() => totalsByProfile(rangeSessions), [rangeSessions]);
+  const profileNames = Object.keys(byProfile).sort((a, b) => {
+    const ta = byProfile[a].active + byProfile[a].short + byProfile[a].long;
+    const tb = byProfile[b].active + byProfile[b].short + byProfile[b].long;
+    return tb - ta;
+  });
+  const maxProfile = Math.max(1, ...profileNames.map((n) => byProfile[n].active + byProfile[n].short + byProfile[n].long));
+
+  return (
+    <div className="grid grid-cols-1 gap-3 mb-3">
+      {/* Yearly heatmap of active minutes */}
+      <div className={`border rounded p-2 ${cardClass}`}>
+        <div className={`text-sm font-semibold mb-2 ${rowText}`}>Active minutes (last year)</div>
+        <div className="overflow-x-auto">
+          <div className="grid grid-rows-7 grid-flow-col gap-[2px] w-max">
+            {heatmapDays.map((key) => {
+              const active = byDay[key]?.active ?? 0;
+              const level = heatLevel(active);
+              const met = goalDays?.has(key);
+              return (
+                <div
+                  key={key}
+                  title={`${key}: ${hm(active)}${met ? ' · goal met' : ''}`}
+                  className="w-[9px] h-[9px] rounded-[2px]"
+                  style={{
+                    ...(level === 0 ? { backgroundColor: emptyCell } : { backgroundColor: accent, opacity: level / 4 }),
+                    ...(met ? { outline: `1px solid ${goalRing}`, opacity: 1 } : {}),
+                  }}
+                />
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Daily active time in the selected range */}
+      <div className={`border rounded p-2 ${cardClass}`}>
+        <div className={`text-sm font-semibold mb-2 ${rowText}`}>Daily active time</div>
+        <div className="flex items-end gap-[2px] h-24">
+          {barDays.map((key) => {
+            const active = byDay[key]?.active ?? 0;
+            const met = goalDays?.has(key);
+            return (
+              <div key={key} className="flex-1 h-full flex items-end" title={`${key}: ${hm(active)}${met ? ' · goal met' : ''}`}>
+                <div className="w-full rounded-t" style={{ height: `${(active / maxBar) * 100}%`, backgroundColor: met ? goalRing : accent }} />
+              </div>
+            );
+          })}
+        </div>
+        <div className={`mt-1 flex justify-between text-[10px] opacity-70 ${rowText}`}>
+          <span>{barDays[0]}</span>
+          <span>max {hm(maxBar)}{goalDays && goalDays.size > 0 ? ' · highlighted: goal met' : ''}</span>
+          <span>{barDays[barDays.length - 1]}</span>
+        </div>
+      </div>
+
+      {/* Active / short / long break per profile */}
+      <div className={`border rounded p-2 ${cardClass}`}>
+        <div className={`text-sm font-semibold mb-2 ${rowText}`}>Time per profile</div>
+        {profileNames.length === 0 && <div className={`text-xs ${rowText}`}>No sessions</div>}
+        <div className="space-y-1">
+          {profileNames.map((name) => {
+            const t = byProfile[name] ?? emptyDayTotals();
+            const pct = (sec: number) => `${(sec / maxProfile) * 100}%`;
+            return (
+              <div key={name} className={`flex items-center gap-2 text-xs ${rowText}`}>
+                <span className="w-24 truncate">{name}</span>
+                <div className="flex-1 flex h-3 rounded overflow-hidden" title={`Active ${hm(t.active)} · Short ${hm(t.short)} · Long ${hm(t.long)}`}>
+                  <div style={{ width: pct(t.active), backgroundColor: accent }} />
+                  <div style={{ width: pct(t.short), backgroundColor: SHORT_COLOR }} />
+                  <div style={{ width: pct(t.long), backgroundColor: LONG_COLOR }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {profileNames.length > 0 && (
+          <div className={`mt-2 flex gap-3 text-[10px] opacity-80 ${rowText}`}>
+            <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: accent }} />Active</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: SHORT_COLOR }} />Short break</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: LONG_COLOR }} />Long break</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiaryCharts;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { changePassphrase, encryptionStatus, lockEncryption, unlockEncryption, type EncryptionStatus } from '../services/e2e';
+import { enableEncryption, syncBackend } from '../services/sync';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface EncryptionSettingsProps {
+  theme?: Theme;
+  userId: string;
+  onUnlocked: () => void; // sync what waited for the key
+}
+
+const MIN_PASSPHRASE = 8;
+
+// Turn on, unlock or re-key end-to-end encryption of synced data (services/e2e)
+const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ theme = 'blue', userId, onUnlocked }) => {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [changing, setChanging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!syncBackend) return;
+    let cancelled = false;
+    encryptionStatus(syncBackend, userId).then((s) => { if (!cancelled) setStatus(s); }).catch(() => { /* offline */ });
+    const onChanged = (e: Event) => setStatus((e as CustomEvent<EncryptionStatus>).detail);
+    window.addEventListener('encryption-changed', onChanged);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('encryption-changed', onChanged);
+    };
+  }, [userId]);
+
+  const isLight = theme === 'gold';
+  const labelTextClass = isLight ? 'text-gray-800' : 'text-gray-300';
+  const helpTextClass = isLight ? 'text-gray-600' : 'text-gray-400';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300' : 'bg-black/30 border-gray-700';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+  const smallBtn = isLight ? 'bg-gray-200 text-gray-900 hover:bg-gray-300' : 'bg-gray-600 text-gray-100 hover:bg-gray-500';
+
+  if (!syncBackend || status === null) return null;
+  const backend = syncBackend;
+
+  const clearFields = () => {
+    setPassphrase('');
+    setConfirm('');
+    setNextPassphrase('');
+    setChanging(false);
+  };
+
+  // Errors are shown rather than thrown; the operations are safe to retry
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch {
+      setMessage('Could not reach the sync backend, try again');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const turnOn = () => run(async () => {
+    if (passphrase.length < MIN_PASSPHRASE) return `Use at least ${MIN_PASSPHRASE} characters`;
+    if (passphrase !== confirm) return 'The passphrases do not match';
+    if (!(await enableEncryption(backend, userId, passphrase))) return 'Encryption was turned on from another device; unlock it with that passphrase';
+    clearFields();
+    return 'Encryption is on. Your synced data was uploaded again, encrypted.';
+  });
+
+  const unlock = () => run(async () => {
+    if (!(await unlockEncryption(backend, userId, passphrase))) return 'Wrong passphrase';
+    clearFields();
+    onUnlocked();
+    return null;
+  });
+
+  const change = () => run(async () => {
+    if (nextPassphrase.length < MIN_PASSPHRASE) return `Use at least ${MIN_PASSPHRASE} characters`;
+    if (nextPassphrase !== confirm) return 'The new passphrases do not match';
+    if (!(await changePassphrase(backend, userId, passphrase, nextPassphrase))) return 'Wrong current passphrase, or it was just changed on another device';
+    clearFields();
+    return 'Passphrase changed. Your other devices stay unlocked.';
+  });
+
+  const passwordInput = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <input
+      type="password"
+      value={value}
+      placeholder={placeholder}
+      autoComplete="off"
+      onChange={(e) => onChange(e.target.value)}
+      className={`rounded-md px-2 py-1 text-sm ${fieldClass}`}
+    />
+  );
+
+  return (
+    <div className={`border rounded p-3 mb-4 ${cardClass}`}>
+      <span className={`block text-sm font-medium mb-2 ${labelTextClass}`}>
+        Encryption · {status === 'off' ? 'Off' : status === 'locked' ? 'Locked on this device' : 'On'}
+      </span>
+      {status === 'off' && (
+        <div className="grid grid-cols-1 gap-2">
+          {passwordInput(passphrase, setPassphrase, 'Passphrase')}
+          {passwordInput(confirm, setConfirm, 'Repeat passphrase')}
+          <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} disabled={busy} onClick={turnOn}>Turn on encryption</button>
+          <p className={`text-xs ${helpTextClass}`}>Sessions, settings, profiles and diary days are encrypted before upload. Without the passphrase they cannot be recovered.</p>
+        </div>
+      )}
+      {status === 'locked' && (
+        <div className="grid grid-cols-1 gap-2">
+          {passwordInput(passphrase, setPassphrase, 'Passphrase')}
+          <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} disabled={busy} onClick={unlock}>Unlock</button>
+          <p className={`text-xs ${helpTextClass}`}>Synced data is encrypted. Nothing syncs on this device until it is unlocked.</p>
+        </div>
+      )}
+      {status === 'unlocked' && !changing && (
+        <div className="flex gap-2">
+          <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} disabled={busy} onClick={() => { setMessage(null); setChanging(true); }}>Change passphrase</button>
+          <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} disabled={busy} onClick={() => run(async () => { await lockEncryption(backend, userId); return null; })}>Lock this device</button>
+        </div>
+      )}
+      {status === 'unlocked' && changing && (
+        <div className="grid grid-cols-1 gap-2">
+          {passwordInput(passphrase, setPassphrase, 'Current passphrase')}
+          {passwordInput(nextPassphrase, setNextPassphrase, 'New passphrase')}
+          {passwordInput(confirm, setConfirm, 'Repeat new passphrase')}
+          <div className="flex gap-2">
+            <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} disabled={busy} onClick={change}>Change</button>
+            <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} disabled={busy} onClick={clearFields}>Cancel</button>
+          </div>
+        </div>
+      )}
+      {busy && <p className={`mt-2 text-xs ${helpTextClass}`}>Working…</p>}
+      {message && <p className={`mt-2 text-xs ${labelTextClass}`}>{message}</p>}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { activeMembers, normalizeRoomCode, type Room, type RoomMemberStatus } from '../utils/rooms';
+import { schedulePosition, segmentLabel } from '../utils/sessionEngine';
+import { readProfiles } from '../utils/storage';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface FocusRoomProps {
+  theme?: Theme;
+  roomCode: string | null; // joined room, possibly still loading
+  room: Room | null;
+  error: string | null;
+  onCreate: (profile: string | null) => void; // null: the current settings
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+}
+
+const STATUS_LABELS: Record<RoomMemberStatus, string> = { focus: 'In focus', break: 'On break', paused: 'Paused' };
+
+const FocusRoom: React.FC<FocusRoomProps> = ({ theme = 'blue', roomCode, room, error, onCreate, onJoin, onLeave }) => {
+  const [profile, setProfile] = useState('');
+  const [code, setCode] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  // Members come and go with the room updates; the segment shown moves with the clock
+  useEffect(() => {
+    if (!room) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(id);
+  }, [room]);
+
+  const isLight = theme === 'gold';
+  const headingClass = isLight ? 'text-amber-700' : 'text-sky-300';
+  const rowText = isLight ? 'text-gray-800' : 'text-gray-200';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300' : 'bg-black/30 border-gray-700';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+  const smallBtn = isLight ? 'bg-gray-200 text-gray-900 hover:bg-gray-300' : 'bg-gray-600 text-gray-100 hover:bg-gray-500';
+  const badgeClass = (status: RoomMemberStatus) =>
+    status === 'focus'
+      ? (isLight ? 'bg-amber-300 text-black' : 'bg-blue-600 text-white')
+      : status === 'break'
+        ? (isLight ? 'bg-emerald-300 text-black' : 'bg-emerald-700 text-white')
+        : (isLight ? 'bg-gray-300 text-gray-800' : 'bg-gray-600 text-gray-200');
+
+  const join = () => {
+    const normalized = normalizeRoomCode(code);
+    if (normalized) onJoin(normalized);
+    setCode('');
+  };
+
+  if (!roomCode) {
+    return (
+      <div className="h-full overflow-auto">
+        <h2 className={`text-lg font-bold mb-3 ${headingClass}`}>Focus Room</h2>
+        <p className={`text-xs mb-3 ${rowText}`}>Run pomodoros in sync with your team: everyone in a room follows the same segments.</p>
+        <div className={`border rounded p-2 mb-3 ${cardClass}`}>
+          <div className={`text-xs font-semibold mb-1 ${rowText}`}>Create a room</div>
+          <div className="flex items-center gap-2">
+            <select
+              value={profile}
+              onChange={(e) => setProfile(e.target.value)}
+              className={`flex-1 min-w-0 rounded-md px-2 py-1 text-sm ${fieldClass}`}
+            >
+              <option value="">Current settings</option>
+              {Object.keys(readProfiles()).map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} onClick={() => onCreate(profile || null)}>Create</button>
+          </div>
+        </div>
+        <div className={`border rounded p-2 mb-3 ${cardClass}`}>
+          <div className={`text-xs font-semibold mb-1 ${rowText}`}>Join with a code</div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={code}
+              placeholder="ABC123"
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') join(); }}
+              className={`flex-1 min-w-0 rounded-md px-2 py-1 text-sm font-mono uppercase ${fieldClass}`}
+            />
+            <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} onClick={join}>Join</button>
+          </div>
+        </div>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+      </div>
+    );
+  }
+
+  const position = room ? schedulePosition(room.config, room.startedAt, now) : null;
+  const members = room ? activeMembers(room, now) : [];
+
+  return (
+    <div className="h-full overflow-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className={`text-lg font-bold ${headingClass}`}>Focus Room</h2>
+        <button className={`px-3 py-1 rounded text-xs font-semibold ${smallBtn}`} onClick={onLeave}>Leave</button>
+      </div>
+      <div className={`border rounded p-2 mb-3 ${cardClass}`}>
+        <div className={`text-xs ${rowText}`}>Code</div>
+        <div className={`text-2xl font-mono font-bold tracking-widest ${headingClass}`}>{roomCode}</div>
+        {!room && <div className={`text-xs mt-1 ${rowText}`}>Connecting…</div>}
+        {room && position && (
+          <div className={`text-xs mt-1 ${rowText}`}>
+            <span className="font-semibold">{room.name}</span>
+            {' · '}
+            {position.finished
+              ? 'Schedule finished'
+              : `${segmentLabel(room.config, position.segment, position.stepIndex)} until ${new Date(position.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+          </div>
+        )}
+      </div>
+      {room && (
+        <>
+          <div className={`text-xs font-semibold mb-1 ${rowText}`}>Members ({members.length})</div>
+          <div className="space-y-1">
+            {members.map((m) => (
+              <div key={m.id} className={`text-xs ${rowText} border rounded p-2 flex items-center gap-2 ${cardClass}`}>
+                <span className="flex-1 truncate">{m.name}</span>
+                <span className={`px-2 py-0.5 rounded ${badgeClass(m.status)}`}>{STATUS_LABELS[m.status]}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      {error && <div className="text-xs text-red-400 mt-2">{error}</div>}
+    </div>
+  );
+};
+
+export default FocusRoom;
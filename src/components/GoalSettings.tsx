@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { readProfiles } from '../utils/storage';
+import type { FocusGoals, GoalMetric } from '../utils/goals';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface GoalSettingsProps {
+  theme?: Theme;
+  goals: FocusGoals;
+  currentProfile?: string;
+  onChange: (goals: FocusGoals) => void;
+}
+
+// Daily/weekly focus goals; changes apply immediately
+const GoalSettings: React.FC<GoalSettingsProps> = ({ theme = 'blue', goals, currentProfile, onChange }) => {
+  const profiles = useMemo<string[]>(() => {
+    const names = new Set<string>(['Default']);
+    if (currentProfile) names.add(currentProfile);
+    if (goals.profile) names.add(goals.profile);
+    Object.keys(readProfiles()).forEach((n) => names.add(n));
+    return Array.from(names).sort();
+  }, [currentProfile, goals.profile]);
+
+  const isLight = theme === 'gold';
+  const labelTextClass = isLight ? 'text-gray-800' : 'text-gray-300';
+  const helpTextClass = isLight ? 'text-gray-600' : 'text-gray-400';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300' : 'bg-black/30 border-gray-700';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+  const segActive = isLight ? 'bg-amber-500 text-black' : 'bg-blue-600 text-white';
+  const segInactive = isLight ? 'bg-gray-200 text-gray-900' : 'bg-gray-600 text-gray-100';
+
+  const unit = goals.metric === 'pomodoros' ? 'pomodoros' : 'hours';
+  const setMetric = (metric: GoalMetric) => onChange({ ...goals, metric });
+  const setTarget = (key: 'daily' | 'weekly', value: number) =>
+    onChange({ ...goals, [key]: Number.isFinite(value) && value > 0 ? value : 0 });
+
+  return (
+    <div className={`border rounded p-3 mb-4 ${cardClass}`}>
+      <span className={`block text-sm font-medium mb-2 ${labelTextClass}`}>Focus Goals</span>
+      <div className="inline-grid grid-cols-2 rounded-md overflow-hidden">
+        <button className={`px-3 py-1 text-sm ${goals.metric === 'activeHours' ? segActive : segInactive}`} onClick={() => setMetric('activeHours')}>Active hours</button>
+        <button className={`px-3 py-1 text-sm ${goals.metric === 'pomodoros' ? segActive : segInactive}`} onClick={() => setMetric('pomodoros')}>Pomodoros</button>
+      </div>
+      <div className="mt-2 grid grid-cols-3 gap-2">
+        <label className={`flex flex-col gap-1 text-xs ${labelTextClass}`}>
+          Daily ({unit})
+          <input
+            type="number"
+            min={0}
+            step={goals.metric === 'pomodoros' ? 1 : 0.5}
+            value={goals.daily}
+            onChange={(e) => setTarget('daily', Number(e.target.value))}
+            className={`rounded-md px-2 py-1 ${fieldClass}`}
+          />
+        </label>
+        <label className={`flex flex-col gap-1 text-xs ${labelTextClass}`}>
+          Weekly ({unit})
+          <input
+            type="number"
+            min={0}
+            step={goals.metric === 'pomodoros' ? 1 : 0.5}
+            value={goals.weekly}
+            onChange={(e) => setTarget('weekly', Number(e.target.value))}
+            className={`rounded-md px-2 py-1 ${fieldClass}`}
+          />
+        </label>
+        <label className={`flex flex-col gap-1 text-xs ${labelTextClass}`}>
+          Profile
+          <select
+            value={goals.profile ?? ''}
+            onChange={(e) => onChange({ ...goals, profile: e.target.value || null })}
+            className={`rounded-md px-2 py-1 ${fieldClass}`}
+          >
+            <option value="">All profiles</option>
+            {profiles.map((p) => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </label>
+      </div>
+      <p className={`mt-2 text-xs ${helpTextClass}`}>Set a target to 0 to turn it off. Streaks count consecutive days meeting the daily goal.</p>
+    </div>
+  );
+};
+
+export default GoalSettings;
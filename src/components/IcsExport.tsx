@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { getTodayKeyLocal } from '../utils/dates';
+import { downloadFile } from '../utils/download';
+import { sessionsToIcs } from '../utils/ics';
+import { loadSessionsBetween, type SessionRecord } from '../utils/sessions';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface IcsExportProps {
+  theme?: Theme;
+  profile?: string; // the Diary's profile filter; all profiles when unset
+  taskTitles: Record<string, string>;
+  buttonClass: string;
+}
+
+// Calendar export for a chosen date range, per session or per pomodoro
+const IcsExport: React.FC<IcsExportProps> = ({ theme = 'blue', profile, taskTitles, buttonClass }) => {
+  const today = getTodayKeyLocal();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [perPomodoro, setPerPomodoro] = useState(false);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+
+  // Only the chosen days are read, while the form is open
+  useEffect(() => {
+    if (!open || !from || !to || from > to) return;
+    let cancelled = false;
+    loadSessionsBetween(from, to, profile)
+      .then((recs) => { if (!cancelled) setSessions(recs); })
+      .catch(() => { /* ignore */ });
+    return () => { cancelled = true; };
+  }, [open, from, to, profile]);
+
+  const isLight = theme === 'gold';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300 text-gray-800' : 'bg-black/30 border-gray-700 text-gray-200';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+
+  const rows = sessions
+    .filter((s) => s.dateKey >= from && s.dateKey <= to)
+    .sort((a, b) => a.startedAt - b.startedAt);
+
+  const download = () => {
+    downloadFile(`tempo-sessions-${from}-${to}.ics`, sessionsToIcs(rows, { perPomodoro, taskTitles }), 'text/calendar;charset=utf-8');
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <button className={buttonClass} onClick={() => setOpen(!open)}>Export ICS</button>
+      {open && (
+        <div className={`basis-full border rounded p-2 text-xs text-left ${cardClass}`}>
+          <div className="font-semibold mb-2">Calendar export</div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="flex flex-col gap-1">
+              From
+              <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={`rounded px-2 py-1 ${fieldClass}`} />
+            </label>
+            <label className="flex flex-col gap-1">
+              To
+              <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={`rounded px-2 py-1 ${fieldClass}`} />
+            </label>
+            <label className="flex items-center gap-1 py-1">
+              <input type="checkbox" checked={perPomodoro} onChange={(e) => setPerPomodoro(e.target.checked)} />
+              One event per pomodoro
+            </label>
+          </div>
+          <div className="mt-1 opacity-80">
+            {rows.length} session(s){perPomodoro ? '; sessions without a pomodoro log export as one event' : ''}
+          </div>
+          <div className="mt-2 flex justify-end gap-2">
+            <button className={buttonClass} onClick={() => setOpen(false)}>Cancel</button>
+            <button className={buttonClass} onClick={download} disabled={rows.length === 0 || !from || !to}>Download</button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default IcsExport;
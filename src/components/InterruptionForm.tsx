@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import type { InterruptionKind } from '../utils/sessionEngine';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface InterruptionFormProps {
+  theme?: Theme;
+  canVoid: boolean; // only a running pomodoro can be voided
+  onSubmit: (entry: { kind: InterruptionKind; note: string; voidPomodoro: boolean }) => void;
+  onCancel: () => void;
+}
+
+const InterruptionForm: React.FC<InterruptionFormProps> = ({ theme = 'blue', canVoid, onSubmit, onCancel }) => {
+  const [kind, setKind] = useState<InterruptionKind>('external');
+  const [note, setNote] = useState('');
+  const [voidPomodoro, setVoidPomodoro] = useState(false);
+
+  const isLight = theme === 'gold';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300 text-gray-800' : 'bg-black/30 border-gray-700 text-gray-200';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+  const segActive = isLight ? 'bg-amber-500 text-black' : 'bg-blue-600 text-white';
+  const segInactive = isLight ? 'bg-gray-200 text-gray-900' : 'bg-gray-600 text-gray-100';
+
+  return (
+    <div className={`mb-2 border rounded p-2 text-xs ${cardClass}`}>
+      <div className="flex items-center gap-2">
+        <div className="inline-grid grid-cols-2 rounded-md overflow-hidden">
+          <button className={`px-2 py-1 ${kind === 'internal' ? segActive : segInactive}`} onClick={() => setKind('internal')}>Internal</button>
+          <button className={`px-2 py-1 ${kind === 'external' ? segActive : segInactive}`} onClick={() => setKind('external')}>External</button>
+        </div>
+        {canVoid && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={voidPomodoro} onChange={(e) => setVoidPomodoro(e.target.checked)} />
+            Void pomodoro
+          </label>
+        )}
+      </div>
+      <input
+        type="text"
+        value={note}
+        placeholder="Note (optional)"
+        maxLength={200}
+        onChange={(e) => setNote(e.target.value)}
+        className={`mt-2 block w-full rounded-md px-2 py-1 ${fieldClass}`}
+      />
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <button
+          className={`${isLight ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} font-semibold py-1.5 rounded`}
+          onClick={onCancel}
+        >Cancel</button>
+        <button
+          className={`${isLight ? 'bg-amber-500 hover:bg-amber-600 text-black' : 'bg-blue-600 hover:bg-blue-700 text-white'} font-semibold py-1.5 rounded`}
+          onClick={() => onSubmit({ kind, note, voidPomodoro: canVoid && voidPomodoro })}
+        >Log interruption</button>
+      </div>
+    </div>
+  );
+};
+
+export default InterruptionForm;
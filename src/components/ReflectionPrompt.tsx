@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface ReflectionPromptProps {
+  theme?: Theme;
+  onSubmit: (reflection: { note: string; rating?: number }) => void;
+  onDismiss: () => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+// Shown during the break after a pomodoro; both fields are optional
+const ReflectionPrompt: React.FC<ReflectionPromptProps> = ({ theme = 'blue', onSubmit, onDismiss }) => {
+  const [note, setNote] = useState('');
+  const [rating, setRating] = useState<number | undefined>(undefined);
+
+  const isLight = theme === 'gold';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300 text-gray-800' : 'bg-black/30 border-gray-700 text-gray-200';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+  const segActive = isLight ? 'bg-amber-500 text-black' : 'bg-blue-600 text-white';
+  const segInactive = isLight ? 'bg-gray-200 text-gray-900' : 'bg-gray-600 text-gray-100';
+
+  return (
+    <div className={`mb-2 border rounded p-2 text-xs ${cardClass}`}>
+      <div className="font-semibold">What did you get done?</div>
+      <input
+        type="text"
+        value={note}
+        placeholder="Short note (optional)"
+        maxLength={280}
+        onChange={(e) => setNote(e.target.value)}
+        className={`mt-2 block w-full rounded-md px-2 py-1 ${fieldClass}`}
+      />
+      <div className="mt-2 flex items-center gap-2">
+        <span>Focus</span>
+        <div className="inline-grid grid-cols-5 rounded-md overflow-hidden">
+          {RATINGS.map((r) => (
+            <button
+              key={r}
+              className={`px-2 py-1 ${rating === r ? segActive : segInactive}`}
+              onClick={() => setRating(rating === r ? undefined : r)}
+            >{r}</button>
+          ))}
+        </div>
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <button
+          className={`${isLight ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} font-semibold py-1.5 rounded`}
+          onClick={onDismiss}
+        >Not now</button>
+        <button
+          className={`${isLight ? 'bg-amber-500 hover:bg-amber-600 text-black' : 'bg-blue-600 hover:bg-blue-700 text-white'} font-semibold py-1.5 rounded disabled:opacity-50`}
+          disabled={!note.trim() && rating === undefined}
+          onClick={() => onSubmit({ note, rating })}
+        >Save</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReflectionPrompt;
@@ -1,25 +1,16 @@
 import React from 'react';
-
-type SegmentType = 'pomodoro' | 'shortBreak' | 'longBreak';
+import type { PlannedSegment, SegmentType } from '../utils/sessionEngine';
 
 type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
 
 interface SchedulePreviewProps {
-  currentType: SegmentType;
-  pomodoroSeconds: number;
-  shortBreakSeconds: number;
-  longBreakSeconds: number;
-  longEvery: number;
+  plan: PlannedSegment[]; // current segment first, then the upcoming ones (see planAhead)
   remainingPomodoros?: number | null; // when cycles mode
   totalSecondsLeft?: number | null; // when workday mode
+  focusBlocks?: number | null; // when flowtime mode
   theme?: Theme;
-  scheduleType?: 'standard' | 'shortOnly' | 'longOnly';
-  pomodorosCompleted?: number; // number of pomodoros completed so far
 }
 
-const labelFor = (t: SegmentType) =>
-  t === 'pomodoro' ? 'Pomodoro' : t === 'shortBreak' ? 'Short Break' : 'Long Break';
-
 const colorFor = (t: SegmentType, theme: Theme) => {
   if (theme === 'neo') {
     return t === 'pomodoro' ? 'bg-[#00F5D4] text-black' : t === 'shortBreak' ? 'bg-[#6C757D]' : 'bg-[#FF3366]';
@@ -36,95 +27,29 @@ const colorFor = (t: SegmentType, theme: Theme) => {
   return t === 'pomodoro' ? 'bg-blue-500' : t === 'shortBreak' ? 'bg-emerald-500' : 'bg-amber-500';
 };
 
-// Decide the next break type given the schedule settings and how many pomodoros
-// will have been completati dopo il prossimo pomodoro.
-const getBreakType = (
-  scheduleType: 'standard' | 'shortOnly' | 'longOnly',
-  longEvery: number,
-  completedPomodorosAfterNext: number
-): SegmentType => {
-  if (scheduleType === 'shortOnly') return 'shortBreak';
-  if (scheduleType === 'longOnly') return 'longBreak';
-  return completedPomodorosAfterNext > 0 && longEvery > 0 && (completedPomodorosAfterNext % longEvery === 0)
-    ? 'longBreak'
-    : 'shortBreak';
-};
+// How many upcoming segments to list under "Next"
+const UPCOMING_SHOWN = 3;
 
 const SchedulePreview: React.FC<SchedulePreviewProps> = ({
-  currentType,
-  pomodoroSeconds,
-  shortBreakSeconds,
-  longBreakSeconds,
-  longEvery,
+  plan,
   remainingPomodoros,
   totalSecondsLeft,
+  focusBlocks,
   theme = 'blue',
-  scheduleType = 'standard',
-  pomodorosCompleted = 0,
 }) => {
-  // Calculate only the next segment
-  const getNextSegment = (): { type: SegmentType; label: string; remaining: number } => {
-    if (currentType === 'pomodoro') {
-      // After a pomodoro comes a break, except if this was the final pomodoro (cycles mode)
-      const totalRemaining = remainingPomodoros ?? 0;
-      if (totalRemaining <= 1) {
-        // No further break after the last pomodoro
-        return { type: 'pomodoro', label: 'Pomodoro', remaining: 0 };
-      }
-
-      const nextPomCompleted = (pomodorosCompleted || 0) + 1;
-      const nextBreak = getBreakType(scheduleType, longEvery, nextPomCompleted);
-      return { type: nextBreak, label: labelFor(nextBreak), remaining: totalRemaining };
-    }
+  // Nothing follows the final pomodoro of a cycles run
+  const upcoming = plan.slice(1, 1 + UPCOMING_SHOWN);
 
-    // After a break comes a pomodoro
-    return { type: 'pomodoro', label: 'Pomodoro', remaining: Math.max(0, (remainingPomodoros ?? 0) - 1) };
-  };
-
-  const nextSegment = getNextSegment();
-  
   // Calculate remaining totals
   const getRemainingInfo = () => {
-    if (remainingPomodoros !== null && remainingPomodoros !== undefined) {
-      // Cycles mode - simulate the remaining sequence stepwise (include current segment fully)
-      const totalPomodoros = remainingPomodoros;
-      type Step = { type: SegmentType; duration: number };
-      const steps: Step[] = [];
-      let pomsLeft = totalPomodoros;
-      let completed = pomodorosCompleted || 0;
-
-      // Include current running segment fully (stepwise behavior)
-      if (currentType === 'pomodoro') {
-        steps.push({ type: 'pomodoro', duration: pomodoroSeconds });
-        pomsLeft = Math.max(0, pomsLeft - 1);
-        completed += 1;
-        // Include the immediate break after the current pomodoro if there are more pomodoros left
-        if (pomsLeft > 0) {
-          const breakType = getBreakType(scheduleType, longEvery, completed);
-          steps.push({ type: breakType, duration: breakType === 'longBreak' ? longBreakSeconds : shortBreakSeconds });
-        }
-      } else if (currentType === 'shortBreak') {
-        steps.push({ type: 'shortBreak', duration: shortBreakSeconds });
-      } else if (currentType === 'longBreak') {
-        steps.push({ type: 'longBreak', duration: longBreakSeconds });
-      }
-
-      // Generate the rest of the schedule until all remaining pomodoros are consumed
-      while (pomsLeft > 0) {
-        // Add next pomodoro
-        steps.push({ type: 'pomodoro', duration: pomodoroSeconds });
-        pomsLeft -= 1;
-        completed += 1;
-
-        // Add a break only if there are still pomodoros left (no break after final pomodoro)
-        if (pomsLeft > 0) {
-          const breakType = getBreakType(scheduleType, longEvery, completed);
-          steps.push({ type: breakType, duration: breakType === 'longBreak' ? longBreakSeconds : shortBreakSeconds });
-        }
-      }
-
-      const totalTime = steps.reduce((acc, s) => acc + s.duration, 0);
-      return { pomodoros: totalPomodoros, time: totalTime, mode: 'cycles' as const };
+    if (focusBlocks !== null && focusBlocks !== undefined) {
+      // Flowtime mode - only the break after the running focus block is known
+      const suggestedBreak = plan[0]?.type === 'pomodoro' && plan[1] ? plan[1].duration : null;
+      return { blocks: focusBlocks, suggestedBreak, mode: 'flowtime' as const };
+    } else if (remainingPomodoros !== null && remainingPomodoros !== undefined) {
+      // Cycles mode - the plan covers the rest of the run (current segment included fully)
+      const totalTime = plan.reduce((acc, s) => acc + s.duration, 0);
+      return { pomodoros: remainingPomodoros, time: totalTime, mode: 'cycles' as const };
     } else if (totalSecondsLeft !== null && totalSecondsLeft !== undefined) {
       // Workday mode
       const remainingHours = Math.floor(totalSecondsLeft / 3600);
@@ -175,11 +100,19 @@ const SchedulePreview: React.FC<SchedulePreviewProps> = ({
     <div className="w-full">
       <h3 className={`font-semibold mb-3 ${headingClass}`}>Next Segments</h3>
       
-      {/* Next segment */}
+      {/* Upcoming segments */}
       <div className="mb-3">
         <div className="text-xs text-gray-400 mb-1">Next:</div>
-        <div className={`px-3 py-2 rounded-lg text-sm font-medium ${colorFor(nextSegment.type, theme)}`}>
-          {nextSegment.label}
+        {upcoming.length === 0 && (
+          <div className="px-3 py-2 rounded-lg text-sm font-medium text-gray-400 border border-gray-600">End of run</div>
+        )}
+        <div className="space-y-1">
+          {upcoming.map((seg, idx) => (
+            <div key={idx} className={`px-3 py-2 rounded-lg text-sm font-medium flex justify-between ${colorFor(seg.type, theme)} ${idx > 0 ? 'opacity-70' : ''}`}>
+              <span>{seg.label}</span>
+              <span className="font-mono">{seg.duration > 0 ? formatTime(seg.duration) : 'open'}</span>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -198,6 +131,19 @@ const SchedulePreview: React.FC<SchedulePreviewProps> = ({
           </>
         )}
         
+        {remainingInfo.mode === 'flowtime' && (
+          <>
+            <div className="text-center">
+              <div className="text-xs text-gray-400 mb-1">Focus Blocks</div>
+              <div className={`text-lg font-bold ${headingClass}`}>{remainingInfo.blocks}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-xs text-gray-400 mb-1">Suggested Break</div>
+              <div className={`text-lg font-bold ${headingClass}`}>{remainingInfo.suggestedBreak != null ? formatTime(remainingInfo.suggestedBreak) : '—'}</div>
+            </div>
+          </>
+        )}
+
         {remainingInfo.mode === 'workday' && (
           <>
             <div className="text-center">
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { getTodayKeyLocal } from '../utils/dates';
+import { newSessionId, type SessionRecord } from '../utils/sessions';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface SessionEditorProps {
+  theme?: Theme;
+  session?: SessionRecord; // edit this session; a new manual one is created otherwise
+  profiles: string[];
+  defaultProfile?: string;
+  onSave: (session: SessionRecord) => void;
+  onCancel: () => void;
+}
+
+const timeOfDay = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`;
+};
+
+const SessionEditor: React.FC<SessionEditorProps> = ({ theme = 'blue', session, profiles, defaultProfile = 'Default', onSave, onCancel }) => {
+  const [profile, setProfile] = useState(session?.profile ?? defaultProfile);
+  const [dateKey, setDateKey] = useState(session?.dateKey ?? getTodayKeyLocal());
+  const [start, setStart] = useState(session ? timeOfDay(session.startedAt) : '09:00');
+  const [activeMin, setActiveMin] = useState(session ? Math.round(session.active / 60) : 25);
+  const [breakMin, setBreakMin] = useState(session ? Math.round(session.break / 60) : 5);
+  const [pomodoros, setPomodoros] = useState(session?.pomodoros ?? 1);
+
+  const isLight = theme === 'gold';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300 text-gray-800' : 'bg-black/30 border-gray-700 text-gray-200';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+
+  const startedAt = new Date(`${dateKey}T${start}:00`).getTime();
+  const valid = profile.trim() !== '' && Number.isFinite(startedAt) && activeMin + breakMin > 0;
+
+  const save = () => {
+    if (!valid) return;
+    const now = Date.now();
+    const active = Math.max(0, Math.round(activeMin)) * 60;
+    const brk = Math.max(0, Math.round(breakMin)) * 60;
+    // Keep the recorded long-break share when possible; the rest counts as short breaks
+    const long = Math.min(session?.long ?? 0, brk);
+    const base: SessionRecord = session ?? {
+      id: newSessionId(),
+      dateKey,
+      profile,
+      active,
+      break: brk,
+      short: brk,
+      long: 0,
+      pomodoros: 0,
+      startedAt,
+      endedAt: startedAt,
+      mode: 'workday',
+      source: 'manual',
+      updatedAt: now,
+    };
+    onSave({
+      ...base,
+      dateKey,
+      profile: profile.trim(),
+      active,
+      break: brk,
+      short: brk - long,
+      long,
+      pomodoros: Math.max(0, Math.round(pomodoros)),
+      startedAt,
+      endedAt: startedAt + (active + brk) * 1000,
+      ...(session ? { editedAt: now } : {}),
+      updatedAt: now,
+    });
+  };
+
+  return (
+    <div className={`border rounded p-2 mb-2 text-xs ${cardClass}`}>
+      <div className="font-semibold mb-2">{session ? 'Edit session' : 'Add session'}</div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <label className="flex flex-col gap-1">
+          Profile
+          <input list="session-editor-profiles" value={profile} onChange={(e) => setProfile(e.target.value)} className={`rounded px-2 py-1 ${fieldClass}`} />
+          <datalist id="session-editor-profiles">
+            {profiles.map((p) => <option key={p} value={p} />)}
+          </datalist>
+        </label>
+        <label className="flex flex-col gap-1">
+          Date
+          <input type="date" value={dateKey} onChange={(e) => setDateKey(e.target.value)} className={`rounded px-2 py-1 ${fieldClass}`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Start
+          <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className={`rounded px-2 py-1 ${fieldClass}`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Active (min)
+          <input type="number" min={0} value={activeMin} onChange={(e) => setActiveMin(Math.max(0, Number(e.target.value)))} className={`rounded px-2 py-1 ${fieldClass}`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Break (min)
+          <input type="number" min={0} value={breakMin} onChange={(e) => setBreakMin(Math.max(0, Number(e.target.value)))} className={`rounded px-2 py-1 ${fieldClass}`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Pomodoros
+          <input type="number" min={0} value={pomodoros} onChange={(e) => setPomodoros(Math.max(0, Number(e.target.value)))} className={`rounded px-2 py-1 ${fieldClass}`} />
+        </label>
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <button
+          className={`${isLight ? 'bg-gray-200 hover:bg-gray-300 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-gray-100'} font-semibold py-1.5 rounded`}
+          onClick={onCancel}
+        >Cancel</button>
+        <button
+          className={`${isLight ? 'bg-amber-500 hover:bg-amber-600 text-black' : 'bg-blue-600 hover:bg-blue-700 text-white'} font-semibold py-1.5 rounded disabled:opacity-50`}
+          disabled={!valid}
+          onClick={save}
+        >Save</button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionEditor;
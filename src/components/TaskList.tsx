@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { createTask, type Task } from '../utils/tasks';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface TaskListProps {
+  theme?: Theme;
+  tasks: Task[];
+  activeTaskId: string | null;
+  onTasksChange: (tasks: Task[]) => void;
+  onActiveTaskChange: (id: string | null) => void;
+}
+
+const TaskList: React.FC<TaskListProps> = ({ theme = 'blue', tasks, activeTaskId, onTasksChange, onActiveTaskChange }) => {
+  const [title, setTitle] = useState('');
+  const [estimate, setEstimate] = useState(2);
+  const [showDone, setShowDone] = useState(false);
+
+  const isLight = theme === 'gold';
+  const headingClass = isLight ? 'text-amber-700' : 'text-sky-300';
+  const rowText = isLight ? 'text-gray-800' : 'text-gray-200';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300' : 'bg-black/30 border-gray-700';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+  const smallBtn = isLight ? 'bg-gray-200 text-gray-900 hover:bg-gray-300' : 'bg-gray-600 text-gray-100 hover:bg-gray-500';
+
+  const addTask = () => {
+    if (!title.trim()) return;
+    const task = createTask(title, estimate);
+    onTasksChange([...tasks, task]);
+    // The first task becomes the active one so it is ready before starting
+    if (!activeTaskId) onActiveTaskChange(task.id);
+    setTitle('');
+  };
+
+  const updateTask = (id: string, patch: Partial<Task>) => {
+    onTasksChange(tasks.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const toggleDone = (t: Task) => {
+    updateTask(t.id, { done: !t.done });
+    if (!t.done && t.id === activeTaskId) onActiveTaskChange(null);
+  };
+
+  const deleteTask = (id: string) => {
+    onTasksChange(tasks.filter((t) => t.id !== id));
+    if (id === activeTaskId) onActiveTaskChange(null);
+  };
+
+  const visible = tasks.filter((t) => showDone || !t.done);
+
+  return (
+    <div className="h-full overflow-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className={`text-lg font-bold ${headingClass}`}>Tasks</h2>
+        <label className={`text-xs flex items-center gap-1 ${rowText}`}>
+          <input type="checkbox" checked={showDone} onChange={(e) => setShowDone(e.target.checked)} />
+          Show completed
+        </label>
+      </div>
+
+      <div className={`border rounded p-2 mb-3 ${cardClass}`}>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={title}
+            placeholder="New task"
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addTask(); }}
+            className={`flex-1 min-w-0 rounded-md px-2 py-1 text-sm ${fieldClass}`}
+          />
+          <input
+            type="number"
+            min={1}
+            value={estimate}
+            title="Estimated pomodoros"
+            onChange={(e) => setEstimate(Math.max(1, Number(e.target.value)))}
+            className={`w-16 rounded-md px-2 py-1 text-sm ${fieldClass}`}
+          />
+          <button className={`px-3 py-1 rounded text-sm font-semibold ${smallBtn}`} onClick={addTask}>Add</button>
+        </div>
+      </div>
+
+      {visible.length === 0 && (
+        <div className={`text-xs ${rowText}`}>No tasks</div>
+      )}
+      <div className="space-y-1">
+        {visible.map((t) => (
+          <div key={t.id} className={`text-xs ${rowText} border rounded p-2 flex items-center gap-2 ${cardClass} ${t.done ? 'opacity-60' : ''}`}>
+            <input
+              type="radio"
+              name="active-task"
+              title="Active task"
+              checked={t.id === activeTaskId}
+              disabled={t.done}
+              onChange={() => onActiveTaskChange(t.id)}
+            />
+            <span className={`flex-1 text-sm truncate ${t.done ? 'line-through' : ''}`}>{t.title}</span>
+            <span className={`font-mono ${t.actual > t.estimate ? 'text-red-400' : ''}`} title="Actual / estimated pomodoros">{t.actual}/{t.estimate}</span>
+            <button className={`px-2 py-0.5 rounded ${smallBtn}`} onClick={() => updateTask(t.id, { estimate: Math.max(1, t.estimate - 1) })}>-1</button>
+            <button className={`px-2 py-0.5 rounded ${smallBtn}`} onClick={() => updateTask(t.id, { estimate: t.estimate + 1 })}>+1</button>
+            <button className={`px-2 py-0.5 rounded ${smallBtn}`} onClick={() => toggleDone(t)}>{t.done ? 'Reopen' : 'Done'}</button>
+            <button className={`px-2 py-0.5 rounded ${smallBtn}`} onClick={() => deleteTask(t.id)}>×</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TaskList;
@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { parseTimeEntries, toSessionRecords, type DateOrder, type TimeImport as TimeImportResult } from '../utils/timeImport';
+import { savedSessionIds, type SessionRecord } from '../utils/sessions';
+
+type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
+
+interface TimeImportProps {
+  theme?: Theme;
+  buttonClass: string;
+  profiles: string[];
+  defaultProfile?: string;
+  onImport: (sessions: SessionRecord[]) => void;
+}
+
+const FORMAT_NAMES = { toggl: 'Toggl Track', clockify: 'Clockify', generic: 'Generic CSV' } as const;
+const MAX_LISTED_ERRORS = 10;
+
+// Import history from Toggl/Clockify CSV exports; projects map onto profiles
+const TimeImport: React.FC<TimeImportProps> = ({ theme = 'blue', buttonClass, profiles, defaultProfile = 'Default', onImport }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<TimeImportResult | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [dateOrder, setDateOrder] = useState<DateOrder | undefined>(undefined);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+
+  const isLight = theme === 'gold';
+  const cardClass = isLight ? 'bg-white/70 border-gray-300 text-gray-800' : 'bg-black/30 border-gray-700 text-gray-200';
+  const fieldClass = isLight
+    ? 'bg-white border border-gray-300 text-gray-900'
+    : 'bg-gray-700 border-transparent text-white';
+
+  // Each project maps to a profile of the same name by default; entries without one use the default profile
+  const show = (parsed: TimeImportResult, previous: Record<string, string>) => {
+    setResult(parsed);
+    setMapping(Object.fromEntries(parsed.projects.map((p) => [p, previous[p] ?? (p || defaultProfile)])));
+  };
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    setDateOrder(undefined);
+    show(parseTimeEntries(text), {});
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  // When the file does not show how to read 03/04/2024, the user says so
+  const chooseDateOrder = (order: DateOrder | undefined) => {
+    setDateOrder(order);
+    show(parseTimeEntries(fileText, order), mapping);
+  };
+
+  const records = useMemo(
+    () => (result ? toSessionRecords(result, (p) => mapping[p]?.trim() || defaultProfile) : []),
+    [result, mapping, defaultProfile],
+  );
+  // Entries imported before are already saved under the same ids
+  const [known, setKnown] = useState<Set<string>>(() => new Set());
+  useEffect(() => {
+    let cancelled = false;
+    savedSessionIds(records.map((r) => r.id))
+      .then((ids) => { if (!cancelled) setKnown(ids); })
+      .catch(() => { /* ignore */ });
+    return () => { cancelled = true; };
+  }, [records]);
+  const fresh = records.filter((r) => !known.has(r.id));
+
+  const apply = () => {
+    onImport(fresh);
+    setResult(null);
+  };
+
+  return (
+    <>
+      <button className={buttonClass} onClick={() => fileRef.current?.click()}>Import CSV</button>
+      <input ref={fileRef} type="file" accept="text/csv,.csv" className="hidden" onChange={(e) => onFile(e.target.files?.[0])} />
+      {result && (
+        <div className={`basis-full border rounded p-2 text-xs text-left ${cardClass}`}>
+          <div className="font-semibold mb-1">Import {fileName}</div>
+          {result.format && (
+            <div className="opacity-80 mb-2">
+              {FORMAT_NAMES[result.format]} · {result.entries.length} entr{result.entries.length === 1 ? 'y' : 'ies'}
+              {records.length > fresh.length ? ` · ${records.length - fresh.length} already imported` : ''}
+            </div>
+          )}
+
+          {(result.ambiguousDates || dateOrder) && (
+            <label className="flex items-center gap-2 mb-2">
+              Dates like 03/04/2024 are
+              <select
+                value={dateOrder ?? ''}
+                onChange={(e) => chooseDateOrder((e.target.value || undefined) as DateOrder | undefined)}
+                className={`rounded px-2 py-1 ${fieldClass}`}
+              >
+                <option value="">not sure</option>
+                <option value="mdy">month/day (March 4)</option>
+                <option value="dmy">day/month (3 April)</option>
+              </select>
+            </label>
+          )}
+
+          {result.projects.length > 0 && (
+            <>
+              <div className="font-semibold mb-1">Projects → profiles</div>
+              <div className="grid grid-cols-2 gap-1 mb-2">
+                {result.projects.map((p) => (
+                  <React.Fragment key={p}>
+                    <span className="truncate py-1">{p || '(no project)'}</span>
+                    <input
+                      list="time-import-profiles"
+                      value={mapping[p] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [p]: e.target.value })}
+                      className={`rounded px-2 py-1 ${fieldClass}`}
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+              <datalist id="time-import-profiles">
+                {profiles.map((p) => <option key={p} value={p} />)}
+              </datalist>
+            </>
+          )}
+
+          {result.unmappedColumns.length > 0 && (
+            <div className="opacity-80">Ignored columns: {result.unmappedColumns.join(', ')}</div>
+          )}
+          {result.errors.length > 0 && (
+            <div className="mt-1 text-red-400">
+              {result.format && <div>{result.errors.length} row(s) skipped:</div>}
+              {result.errors.slice(0, MAX_LISTED_ERRORS).map((e) => (
+                <div key={`${e.line}-${e.message}`}>{result.format ? `Line ${e.line}: ` : ''}{e.message}</div>
+              ))}
+              {result.errors.length > MAX_LISTED_ERRORS && <div>…and {result.errors.length - MAX_LISTED_ERRORS} more</div>}
+            </div>
+          )}
+
+          <div className="mt-2 flex justify-end gap-2">
+            <button className={buttonClass} onClick={() => setResult(null)}>Cancel</button>
+            {result.format && (
+              <button className={buttonClass} onClick={apply} disabled={fresh.length === 0}>Import {fresh.length} session(s)</button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TimeImport;
@@ -10,9 +10,10 @@ interface TimerProps {
   sessionId?: number; // changes to force full reset without changing duration
   accentHex?: string; // custom accent color
   glowHex?: string;   // custom glow color for text shadow
+  countUpSeconds?: number; // when set, shows this elapsed time instead of the countdown (flowtime)
 }
 
-const Timer: React.FC<TimerProps> = ({ duration, isRunning, onTimerEnd, theme = 'blue', sessionId = 0, accentHex, glowHex }) => {
+const Timer: React.FC<TimerProps> = ({ duration, isRunning, onTimerEnd, theme = 'blue', sessionId = 0, accentHex, glowHex, countUpSeconds }) => {
   const [displaySeconds, setDisplaySeconds] = useState<number>(duration);
   const remainingMsRef = useRef<number>(duration * 1000);
   const targetTsRef = useRef<number | null>(null);
@@ -89,14 +90,7 @@ const Timer: React.FC<TimerProps> = ({ duration, isRunning, onTimerEnd, theme =
       stopLoop();
     }
     return () => stopLoop();
-  }, [isRunning]);
-
-  // Safety: if duration/session changes while running, ensure a loop is scheduled
-  useEffect(() => {
-    if (isRunning && rafRef.current === null) {
-      rafRef.current = requestAnimationFrame(tick);
-    }
-    return () => {};
+    // duration/session changes re-target a running countdown (new segment or manual adjustment)
   }, [isRunning, duration, sessionId]);
 
   // Ensure progress catches up when tab becomes visible again
@@ -144,7 +138,7 @@ const Timer: React.FC<TimerProps> = ({ duration, isRunning, onTimerEnd, theme =
     <div className="mb-6 select-none">
       <div className="mx-auto w-full text-center">
         <span className={`text-6xl sm:text-7xl lg:text-8xl font-digital tracking-widest ${fallbackClass}`} style={textStyle}>
-          {formatTime(displaySeconds)}
+          {formatTime(countUpSeconds ?? displaySeconds)}
         </span>
       </div>
     </div>
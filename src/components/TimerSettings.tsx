@@ -1,6 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { resumeAudioContext, playChimeByName, type SoundName } from '../utils/audio';
-import { VOICE_OPTIONS, type VoiceType } from '../utils/constants';
+import { STORAGE, VOICE_OPTIONS, type VoiceType } from '../utils/constants';
+import { DEFAULT_SESSION_CONFIG, type RunMode, type ScheduleType, type SegmentType, type SequenceStep, type SessionConfig } from '../utils/sessionEngine';
+import { readProfiles, readString, writeProfiles, writeString, type ProfileStore } from '../utils/storage';
+
+const STEP_TYPE_LABELS: Record<SegmentType, string> = {
+  pomodoro: 'Work',
+  shortBreak: 'Short break',
+  longBreak: 'Long break',
+};
 
 interface TimerSettingsProps {
   pomodoroDuration: number;
@@ -8,22 +16,15 @@ interface TimerSettingsProps {
   longBreakDuration: number;
   workdayDuration: number;
   longBreakEvery?: number;
-  mode?: 'workday' | 'cycles';
+  mode?: RunMode;
   targetCycles?: number;
+  flowBreakRatio?: number;
   theme?: 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
   hapticsEnabled?: boolean;
   onToggleHaptics?: (enabled: boolean) => void;
-  scheduleType?: 'standard' | 'shortOnly' | 'longOnly';
-  onSettingsChange: (settings: {
-    pomodoro: number;
-    shortBreak: number;
-    longBreak: number;
-    workday: number;
-    longEvery: number;
-    mode: 'workday' | 'cycles';
-    targetCycles: number;
-    scheduleType: 'standard' | 'shortOnly' | 'longOnly';
-  }) => void;
+  scheduleType?: ScheduleType;
+  sequence?: SequenceStep[];
+  onSettingsChange: (settings: SessionConfig) => void;
   onProfileApplied?: (name: string) => void;
   onProfileSaved?: (name: string) => void;
   sound?: SoundName;
@@ -38,10 +39,12 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
   longBreakEvery = 4,
   mode = 'workday',
   targetCycles = 8,
+  flowBreakRatio = DEFAULT_SESSION_CONFIG.flowBreakRatio,
   theme = 'blue',
   hapticsEnabled = true,
   onToggleHaptics,
   scheduleType = 'standard',
+  sequence = [],
   onSettingsChange,
   onProfileApplied,
   onProfileSaved,
@@ -53,34 +56,27 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
   const [longBreak, setLongBreak] = useState(longBreakDuration);
   const [workday, setWorkday] = useState(workdayDuration);
   const [longEvery, setLongEvery] = useState(longBreakEvery);
-  const [runMode, setRunMode] = useState<'workday' | 'cycles'>(mode);
+  const [runMode, setRunMode] = useState<RunMode>(mode);
   const [cycles, setCycles] = useState<number>(targetCycles);
-  const [schedType, setSchedType] = useState<'standard' | 'shortOnly' | 'longOnly'>(scheduleType);
+  const [flowRatio, setFlowRatio] = useState<number>(flowBreakRatio);
+  const [schedType, setSchedType] = useState<ScheduleType>(scheduleType);
+  const [steps, setSteps] = useState<SequenceStep[]>(sequence);
   
   // Voice settings
   const [voiceType, setVoiceType] = useState<VoiceType>('system');
   const [voiceVolume, setVoiceVolume] = useState<number>(0.8);
   
-  const [profiles, setProfiles] = useState<Record<string, {
-    pomodoro: number;
-    shortBreak: number;
-    longBreak: number;
-    workday: number;
-    longEvery: number;
-    mode: 'workday' | 'cycles';
-    targetCycles: number;
-    scheduleType: 'standard' | 'shortOnly' | 'longOnly';
-  }>>({});
+  const [profiles, setProfiles] = useState<ProfileStore>({});
   const [profileName, setProfileName] = useState<string>('');
   const [selectedProfile, setSelectedProfile] = useState<string>('');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
-  // Load voice settings from localStorage
+  // Load voice settings from localStorage, again when a sync brings them from another device
   useEffect(() => {
-    try {
-      const savedVoice = localStorage.getItem('tempo_voice') as VoiceType;
-      const savedVolume = localStorage.getItem('tempo_voice_volume');
-      
+    const loadVoice = () => {
+      const savedVoice = readString(STORAGE.VOICE) as VoiceType | null;
+      const savedVolume = readString(STORAGE.VOICE_VOLUME);
+
       if (savedVoice && Object.keys(VOICE_OPTIONS).includes(savedVoice)) {
         setVoiceType(savedVoice);
       }
@@ -90,19 +86,16 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
           setVoiceVolume(volume);
         }
       }
-    } catch {
-      // ignore
-    }
+    };
+    loadVoice();
+    window.addEventListener('settings-synced', loadVoice);
+    return () => window.removeEventListener('settings-synced', loadVoice);
   }, []);
 
   // Save voice settings to localStorage
   const saveVoiceSettings = (type: VoiceType, volume: number) => {
-    try {
-      localStorage.setItem('tempo_voice', type);
-      localStorage.setItem('tempo_voice_volume', volume.toString());
-    } catch {
-      // ignore
-    }
+    writeString(STORAGE.VOICE, type);
+    writeString(STORAGE.VOICE_VOLUME, volume.toString());
   };
 
   // Handle voice change
@@ -118,16 +111,12 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
     saveVoiceSettings(voiceType, clampedVolume);
   };
 
+  // Profiles created on other devices show up after a sync
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem('tempo_profiles');
-      if (raw) {
-        const obj = JSON.parse(raw) as Record<string, any>;
-        setProfiles(obj || {});
-      }
-    } catch {
-      // ignore
-    }
+    const loadProfiles = () => setProfiles(readProfiles());
+    loadProfiles();
+    window.addEventListener('settings-synced', loadProfiles);
+    return () => window.removeEventListener('settings-synced', loadProfiles);
   }, []);
 
   // Track changes and save automatically
@@ -142,7 +131,9 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
         currentProfile.longEvery !== longEvery ||
         currentProfile.mode !== runMode ||
         currentProfile.targetCycles !== cycles ||
-        currentProfile.scheduleType !== schedType;
+        currentProfile.scheduleType !== schedType ||
+        currentProfile.flowBreakRatio !== flowRatio ||
+        JSON.stringify(currentProfile.sequence) !== JSON.stringify(steps);
       
       setHasUnsavedChanges(hasChanges);
       
@@ -152,15 +143,11 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
         return () => clearTimeout(timeoutId);
       }
     }
-  }, [pomodoro, shortBreak, longBreak, workday, longEvery, runMode, cycles, schedType, selectedProfile, profiles]);
+  }, [pomodoro, shortBreak, longBreak, workday, longEvery, runMode, cycles, schedType, steps, flowRatio, selectedProfile, profiles]);
 
   const persistProfiles = (next: typeof profiles) => {
     setProfiles(next);
-    try {
-      localStorage.setItem('tempo_profiles', JSON.stringify(next));
-    } catch {
-      // ignore
-    }
+    writeProfiles(next);
   };
 
   // Function to automatically save changes to the current profile
@@ -175,6 +162,8 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
         mode: runMode,
         targetCycles: cycles,
         scheduleType: schedType,
+        sequence: steps,
+        flowBreakRatio: flowRatio,
       };
       
       const updatedProfiles = { ...profiles, [selectedProfile]: updatedProfile };
@@ -198,6 +187,8 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
       mode: runMode,
       targetCycles: cycles,
       scheduleType: schedType,
+      sequence: steps,
+      flowBreakRatio: flowRatio,
     } as const;
     persistProfiles({ ...profiles, [name]: data });
     setProfileName('');
@@ -215,6 +206,8 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
     setRunMode(p.mode);
     setCycles(p.targetCycles);
     setSchedType(p.scheduleType);
+    setSteps(p.sequence);
+    setFlowRatio(p.flowBreakRatio);
     setSelectedProfile(name); // Set the selected profile
     if (onProfileApplied) onProfileApplied(name);
   };
@@ -411,8 +404,9 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
     longBreak: 15 * 60,
     workday: 8 * 3600,
     longEvery: 4,
-    mode: 'workday' as 'workday' | 'cycles',
+    mode: 'workday' as RunMode,
     cycles: 8,
+    flowRatio: DEFAULT_SESSION_CONFIG.flowBreakRatio,
   };
 
   const handleResetDefaults = () => {
@@ -423,9 +417,47 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
     setLongEvery(defaults.longEvery);
     setRunMode(defaults.mode);
     setCycles(defaults.cycles);
+    setFlowRatio(defaults.flowRatio);
+  };
+
+  // Custom sequence editing
+  const sequenceValid = schedType !== 'custom' || steps.some((st) => st.type === 'pomodoro');
+
+  const selectCustomSchedule = () => {
+    setSchedType('custom');
+    // Start from the current durations so the editor is never empty
+    if (steps.length === 0) {
+      setSteps([
+        { type: 'pomodoro', label: 'Work', duration: pomodoro },
+        { type: 'shortBreak', label: 'Break', duration: shortBreak },
+      ]);
+    }
+  };
+
+  const updateStep = (idx: number, patch: Partial<SequenceStep>) => {
+    setSteps((prev) => prev.map((st, i) => (i === idx ? { ...st, ...patch } : st)));
+  };
+
+  const addStep = () => {
+    setSteps((prev) => [...prev, { type: 'pomodoro', label: 'Work', duration: pomodoro }]);
+  };
+
+  const removeStep = (idx: number) => {
+    setSteps((prev) => prev.filter((_, i) => i !== idx));
+  };
+
+  const moveStep = (idx: number, dir: -1 | 1) => {
+    setSteps((prev) => {
+      const target = idx + dir;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
   };
 
   const handleChange = () => {
+    if (!sequenceValid) return;
     // Apply the settings
     onSettingsChange({
       pomodoro: pomodoro,
@@ -436,6 +468,8 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
       mode: runMode,
       targetCycles: cycles,
       scheduleType: schedType,
+      sequence: steps,
+      flowBreakRatio: flowRatio,
     });
     
     // Force immediate save if there are unsaved changes
@@ -449,7 +483,7 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
       <div className="col-span-full">
         <div className={`border rounded p-3 ${cardClass}`}>
           <span className={`block text-sm font-medium mb-2 ${labelTextClass}`}>Mode</span>
-          <div className="inline-grid grid-cols-2 rounded-md overflow-hidden focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-400">
+          <div className="inline-grid grid-cols-3 rounded-md overflow-hidden focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-400">
             <button
               className={`px-3 py-1 text-sm ${runMode==='workday' ? segActive : segInactive}`}
               onClick={() => setRunMode('workday')}
@@ -458,8 +492,12 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
               className={`px-3 py-1 text-sm ${runMode==='cycles' ? segActive : segInactive}`}
               onClick={() => setRunMode('cycles')}
             >Cycles</button>
+            <button
+              className={`px-3 py-1 text-sm ${runMode==='flowtime' ? segActive : segInactive}`}
+              onClick={() => setRunMode('flowtime')}
+            >Flowtime</button>
           </div>
-          <p className={`mt-2 text-xs ${helpTextClass}`}>{runMode==='workday' ? 'Set total workday duration' : 'Set number of pomodoro cycles'}</p>
+          <p className={`mt-2 text-xs ${helpTextClass}`}>{runMode==='workday' ? 'Set total workday duration' : runMode==='cycles' ? 'Set number of pomodoro cycles' : 'Focus until you stop; the break is sized from the focus time'}</p>
         </div>
       </div>
       {Object.keys(profiles).length > 0 && (
@@ -493,12 +531,53 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
       <div className="col-span-full">
         <div className={`border rounded p-3 ${cardClass}`}>
           <span className={`block text-sm font-medium mb-2 ${labelTextClass}`}>Pause Schema</span>
-          <div className="inline-grid grid-cols-3 rounded-md overflow-hidden">
+          <div className="inline-grid grid-cols-4 rounded-md overflow-hidden">
             <button className={`px-3 py-1 text-sm ${schedType==='standard' ? segActive : segInactive}`} onClick={() => setSchedType('standard')}>Standard</button>
             <button className={`px-3 py-1 text-sm ${schedType==='shortOnly' ? segActive : segInactive}`} onClick={() => setSchedType('shortOnly')}>Short Only</button>
-            <button className={`px-3 py-1 text-sm ${schedType==='longOnly' ? segInactive : segActive}`} onClick={() => setSchedType('longOnly')}>Long Only</button>
+            <button className={`px-3 py-1 text-sm ${schedType==='longOnly' ? segActive : segInactive}`} onClick={() => setSchedType('longOnly')}>Long Only</button>
+            <button className={`px-3 py-1 text-sm ${schedType==='custom' ? segActive : segInactive}`} onClick={selectCustomSchedule}>Custom</button>
           </div>
-          <p className={`mt-2 text-xs ${helpTextClass}`}>Choose how to distribute breaks between pomodoros</p>
+          <p className={`mt-2 text-xs ${helpTextClass}`}>{schedType==='custom' ? 'Define your own sequence of work and break steps' : 'Choose how to distribute breaks between pomodoros'}</p>
+          {schedType === 'custom' && (
+            <div className="mt-3 space-y-2">
+              {steps.map((step, idx) => (
+                <div key={idx} className="flex gap-2 items-center">
+                  <span className={`text-xs w-5 text-right ${helpTextClass}`}>{idx + 1}.</span>
+                  <select
+                    value={step.type}
+                    onChange={(e) => updateStep(idx, { type: e.target.value as SegmentType })}
+                    className={`rounded-md px-2 py-1 text-sm ${fieldClass}`}
+                  >
+                    {(Object.keys(STEP_TYPE_LABELS) as SegmentType[]).map((t) => (
+                      <option key={t} value={t}>{STEP_TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={step.label}
+                    placeholder={STEP_TYPE_LABELS[step.type]}
+                    onChange={(e) => updateStep(idx, { label: e.target.value })}
+                    className={`flex-1 min-w-0 rounded-md px-2 py-1 text-sm ${fieldClass}`}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={Math.round(step.duration / 60)}
+                    onChange={(e) => updateStep(idx, { duration: Math.max(1, Number(e.target.value)) * 60 })}
+                    className={`w-16 rounded-md px-2 py-1 text-sm text-right ${fieldClass}`}
+                  />
+                  <span className={`text-xs ${helpTextClass}`}>min</span>
+                  <button className={`px-2 py-1 rounded text-xs ${smallBtn}`} onClick={() => moveStep(idx, -1)} disabled={idx === 0}>↑</button>
+                  <button className={`px-2 py-1 rounded text-xs ${smallBtn}`} onClick={() => moveStep(idx, 1)} disabled={idx === steps.length - 1}>↓</button>
+                  <button className={`${isLight ? 'bg-red-600 hover:bg-red-700' : 'bg-red-700 hover:bg-red-800'} text-white text-xs font-semibold py-1 px-2 rounded`} onClick={() => removeStep(idx)}>×</button>
+                </div>
+              ))}
+              <button className={`px-3 py-1 rounded text-sm ${smallBtn}`} onClick={addStep}>Add step</button>
+              {!sequenceValid && (
+                <p className={`text-xs ${isLight ? 'text-red-700' : 'text-red-400'}`}>The sequence needs at least one work step</p>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -674,6 +753,23 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
             presets={[4*3600, 6*3600, 8*3600]}
           />
         </div>
+      ) : runMode === 'flowtime' ? (
+        <div className={`border rounded p-3 ${cardClass}`}>
+          <label htmlFor="flowRatio" className={`block text-sm font-medium ${labelTextClass}`}>Break ratio (1 : N)</label>
+          <div className="mt-1 flex items-center gap-2">
+            <button className={`px-2 py-1 rounded ${smallBtn}`} onMouseDown={(e)=>startHold(e,()=>setFlowRatio((v)=>Math.max(1,v-1)))} onMouseUp={stopHold} onMouseLeave={stopHold} onTouchStart={(e)=>startHold(e,()=>setFlowRatio((v)=>Math.max(1,v-1)))} onTouchEnd={stopHold}>-1</button>
+            <input
+              type="number"
+              id="flowRatio"
+              min={1}
+              value={flowRatio}
+              onChange={(e) => setFlowRatio(Math.max(1, Number(e.target.value)))}
+              className={`block w-full rounded-md px-3 py-1.5 ${fieldClass}`}
+            />
+            <button className={`px-2 py-1 rounded ${smallBtn}`} onMouseDown={(e)=>startHold(e,()=>setFlowRatio((v)=>v+1))} onMouseUp={stopHold} onMouseLeave={stopHold} onTouchStart={(e)=>startHold(e,()=>setFlowRatio((v)=>v+1))} onTouchEnd={stopHold}>+1</button>
+          </div>
+          <p className={`mt-1 text-xs ${helpTextClass}`}>1 minute of break for every {flowRatio} minutes of focus</p>
+        </div>
       ) : (
         <div className={`border rounded p-3 ${cardClass}`}>
           <label htmlFor="cycles" className={`block text-sm font-medium ${labelTextClass}`}>Pomodoro Cycles</label>
@@ -689,6 +785,9 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
             />
             <button className={`px-2 py-1 rounded ${smallBtn}`} onMouseDown={(e)=>startHold(e,()=>setCycles((v)=>v+1))} onMouseUp={stopHold} onMouseLeave={stopHold} onTouchStart={(e)=>startHold(e,()=>setCycles((v)=>v+1))} onTouchEnd={stopHold}>+1</button>
           </div>
+          {schedType === 'custom' && (
+            <p className={`mt-1 text-xs ${helpTextClass}`}>A custom sequence runs until its last work step</p>
+          )}
         </div>
       )}
       <div className={`border rounded p-3 ${cardClass}`}>
@@ -715,8 +814,9 @@ const TimerSettings: React.FC<TimerSettingsProps> = ({
           Reset Defaults
         </button>
         <button
-          className={`w-full ${isLight ? 'bg-amber-500 hover:bg-amber-600 text-black' : 'bg-green-600 hover:bg-green-700 text-white'} font-bold py-2 px-4 rounded`}
+          className={`w-full ${isLight ? 'bg-amber-500 hover:bg-amber-600 text-black' : 'bg-green-600 hover:bg-green-700 text-white'} font-bold py-2 px-4 rounded disabled:opacity-50 disabled:cursor-not-allowed`}
           onClick={handleChange}
+          disabled={!sequenceValid}
         >
           Apply Settings
         </button>
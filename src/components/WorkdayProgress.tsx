@@ -1,16 +1,18 @@
 import React from 'react';
+import type { GoalProgress } from '../utils/goals';
 
 type Theme = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
 
 interface WorkdayProgressProps {
   totalWorkdayDuration: number; // Total workday duration in seconds
   elapsedWorkdayTime: number; // Elapsed time in seconds
-  mode?: 'workday' | 'cycles';
+  mode?: 'workday' | 'cycles' | 'flowtime';
   targetCycles?: number;
   pomodorosCompleted?: number;
   theme?: Theme;
   cumulativeActiveSec?: number;
   cumulativeBreakSec?: number;
+  goals?: GoalProgress | null;
 }
 
 const WorkdayProgress: React.FC<WorkdayProgressProps> = ({
@@ -22,12 +24,16 @@ const WorkdayProgress: React.FC<WorkdayProgressProps> = ({
   theme = 'blue',
   cumulativeActiveSec,
   cumulativeBreakSec,
+  goals,
 }) => {
   let progressPct = 0;
   let label = '';
   if (mode === 'workday') {
     progressPct = totalWorkdayDuration > 0 ? (elapsedWorkdayTime / totalWorkdayDuration) * 100 : 0;
     label = `Workday: ${(progressPct).toFixed(1)}%`;
+  } else if (mode === 'flowtime') {
+    // Open-ended: no target to progress towards
+    label = `Flowtime: ${pomodorosCompleted} focus block${pomodorosCompleted === 1 ? '' : 's'}`;
   } else {
     progressPct = targetCycles > 0 ? (pomodorosCompleted / targetCycles) * 100 : 0;
     const remaining = Math.max(0, targetCycles - pomodorosCompleted);
@@ -55,20 +61,48 @@ const WorkdayProgress: React.FC<WorkdayProgressProps> = ({
     return `${m}:${sec.toString().padStart(2,'0')}`;
   };
 
+  const goalText = (value: number) =>
+    goals?.metric === 'pomodoros' ? `${Math.floor(value)}` : `${value.toFixed(1)}h`;
+  const goalRow = (name: string, g: { value: number; target: number }) => {
+    const pct = Math.min(100, (g.value / g.target) * 100);
+    return (
+      <div key={name}>
+        <div className="flex justify-between">
+          <span>{name}{g.value >= g.target ? ' ✓' : ''}</span>
+          <span>{goalText(g.value)} / {goalText(g.target)}</span>
+        </div>
+        <div className={`w-full ${trackClass} rounded-full h-1.5 overflow-hidden`}>
+          <div className="h-1.5 rounded-full" style={{ width: `${pct}%`, ...fillStyle }} />
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="w-full mt-4">
-      <div className={`w-full ${trackClass} rounded-full h-4 overflow-hidden`}>
-        <div
-          className={`h-4 rounded-full transition-all`}
-          style={{ width: `${Math.min(100, Math.max(0, progressPct))}%`, ...fillStyle }}
-        />
-      </div>
+      {mode !== 'flowtime' && (
+        <div className={`w-full ${trackClass} rounded-full h-4 overflow-hidden`}>
+          <div
+            className={`h-4 rounded-full transition-all`}
+            style={{ width: `${Math.min(100, Math.max(0, progressPct))}%`, ...fillStyle }}
+          />
+        </div>
+      )}
       <p className={`text-sm ${labelClass} mt-2 font-medium`}>{label}</p>
       <div className={`mt-1 text-xs ${labelClass} grid grid-cols-2 gap-2`}>
         <div className="text-xs text-gray-400 space-y-1">
           <div>Activity: {fmt(cumulativeActiveSec)}</div>
           <div>Break: {fmt(cumulativeBreakSec)}</div>
         </div>
+        {goals && (
+          <div className="text-xs text-gray-400 space-y-1">
+            {goals.daily && goalRow('Today', goals.daily)}
+            {goals.weekly && goalRow('This week', goals.weekly)}
+            {goals.daily && (
+              <div>Streak: {goals.streak.current} day{goals.streak.current === 1 ? '' : 's'} (best {goals.streak.longest})</div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
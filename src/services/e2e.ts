@@ -0,0 +1,258 @@
+import {
+  blindName,
+  createVault,
+  isSealed,
+  loadKeys,
+  openVault,
+  rewrapVault,
+  saveKeys,
+  seal,
+  unseal,
+  type E2eKeys,
+  type Vault,
+} from '../utils/e2e';
+import type { StampedField, SyncDoc } from '../utils/fieldSync';
+import type { LiveDoc } from '../utils/liveTimer';
+import { normalizeSession, type SessionRecord } from '../utils/sessions';
+import type { SyncBackend } from './sync';
+
+// Optional end-to-end encryption of what a backend stores (see utils/e2e). Once a user
+// turns it on, sessions, settings, profiles, diary days and the live timer only leave
+// the device encrypted, and every device needs the passphrase once to read them. Left
+// readable: session ids, days and change times, document change times (needed to merge)
+// and focus rooms, which are shared with other users.
+export type EncryptionStatus = 'off' | 'locked' | 'unlocked';
+
+type VaultState = { scope: string; vault: Vault | null; keys: E2eKeys | null; checkedAt: number };
+
+const VAULT_CHECK_MS = 60_000; // while off, how often to look for a vault made on another device
+const DOC_PREFIX = 'e2e:';     // encrypted documents have blinded keys
+
+let state: VaultState | null = null;
+let loading: { scope: string; promise: Promise<VaultState> } | null = null;
+
+const scopeOf = (backend: SyncBackend, userId: string) => `${backend.id}:${userId}`;
+
+const statusOf = (s: VaultState | null): EncryptionStatus => (!s?.vault ? 'off' : s.keys ? 'unlocked' : 'locked');
+
+// Announced with `encryption-changed`
+const setState = (next: VaultState) => {
+  const before = statusOf(state);
+  state = next;
+  if (statusOf(next) !== before) window.dispatchEvent(new CustomEvent('encryption-changed', { detail: statusOf(next) }));
+};
+
+// Keys unlocked earlier on this device, if they belong to the account's vault
+const keysFor = async (scope: string, vault: Vault | null): Promise<E2eKeys | null> => {
+  if (!vault) return null;
+  const keys = await loadKeys(scope);
+  return keys && keys.keyId === vault.keyId ? keys : null;
+};
+
+export async function refreshEncryption(backend: SyncBackend, userId: string): Promise<EncryptionStatus> {
+  const scope = scopeOf(backend, userId);
+  const promise = (async () => {
+    const vault = await backend.getVault(userId);
+    const next = { scope, vault, keys: await keysFor(scope, vault), checkedAt: Date.now() };
+    setState(next);
+    return next;
+  })();
+  loading = { scope, promise };
+  try {
+    return statusOf(await promise);
+  } finally {
+    if (loading?.promise === promise) loading = null;
+  }
+}
+
+// The state for this user; another tab may have unlocked it or another device turned it on
+const current = async (backend: SyncBackend, userId: string): Promise<VaultState> => {
+  const scope = scopeOf(backend, userId);
+  if (loading?.scope === scope) return loading.promise;
+  if (state?.scope !== scope || (!state.vault && Date.now() - state.checkedAt > VAULT_CHECK_MS)) {
+    await refreshEncryption(backend, userId);
+  } else if (state.vault && !state.keys) {
+    const keys = await keysFor(scope, state.vault);
+    if (keys) setState({ ...state, keys });
+  }
+  return state as VaultState;
+};
+
+export const encryptionStatus = async (backend: SyncBackend, userId: string): Promise<EncryptionStatus> =>
+  statusOf(await current(backend, userId));
+
+// Keys to write with, or null to write in the clear. A locked device writes nothing, so
+// the queued changes wait in the outbox until it is unlocked.
+const keysToUse = async (backend: SyncBackend, userId: string): Promise<E2eKeys | null> => {
+  const s = await current(backend, userId);
+  if (s.vault && !s.keys) throw new Error('Encrypted sync is locked on this device');
+  return s.keys;
+};
+
+// Only what the backends need to store and merge a session stays readable
+const sealSession = async (keys: E2eKeys, rec: SessionRecord): Promise<SessionRecord> => ({
+  id: rec.id,
+  dateKey: rec.dateKey,
+  profile: '',
+  active: 0,
+  break: 0,
+  short: 0,
+  long: 0,
+  pomodoros: 0,
+  startedAt: 0,
+  endedAt: 0,
+  mode: 'workday',
+  updatedAt: rec.updatedAt,
+  sealed: await seal(keys, { ...rec, sealed: undefined }),
+});
+
+const openSession = async (keys: E2eKeys | null, rec: SessionRecord): Promise<SessionRecord | null> => {
+  if (!isSealed(rec.sealed)) return rec;
+  if (!keys) return null;
+  try {
+    const plain = normalizeSession(await unseal(keys, rec.sealed));
+    return plain ? { ...plain, id: rec.id, updatedAt: rec.updatedAt } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Field values carry their document key and field name, which are blinded outside
+type SealedField = { key: string; name: string; value: unknown };
+
+const sealDoc = async (keys: E2eKeys, doc: SyncDoc): Promise<SyncDoc> => {
+  const fields: Record<string, StampedField> = {};
+  await Promise.all(Object.entries(doc.fields).map(async ([name, field]) => {
+    const value: SealedField = { key: doc.key, name, value: field.value };
+    fields[await blindName(keys, name)] = { value: await seal(keys, value), at: field.at };
+  }));
+  return { key: `${DOC_PREFIX}${await blindName(keys, doc.key)}`, fields };
+};
+
+const openDoc = async (keys: E2eKeys, doc: SyncDoc): Promise<SyncDoc | null> => {
+  if (!doc.key.startsWith(DOC_PREFIX)) return null;
+  let key: string | null = null;
+  const fields: Record<string, StampedField> = {};
+  for (const field of Object.values(doc.fields)) {
+    if (!isSealed(field.value)) continue;
+    try {
+      const plain = (await unseal(keys, field.value)) as SealedField;
+      key = plain.key;
+      fields[plain.name] = { value: plain.value ?? null, at: field.at };
+    } catch {
+      /* ignore */
+    }
+  }
+  return key === null ? null : { key, fields };
+};
+
+// Backends store the encrypted live timer and command as plain strings
+const sealLive = async (keys: E2eKeys, update: Partial<LiveDoc>): Promise<Partial<LiveDoc>> => {
+  const sealed: Record<string, unknown> = {};
+  if ('timer' in update) sealed.timer = update.timer ? await seal(keys, update.timer) : null;
+  if ('command' in update) sealed.command = update.command ? await seal(keys, update.command) : null;
+  return sealed as Partial<LiveDoc>;
+};
+
+const openLive = async (keys: E2eKeys | null, live: LiveDoc): Promise<LiveDoc> => {
+  const open = async <T>(value: T | null): Promise<T | null> => {
+    if (!isSealed(value)) return value;
+    if (!keys) return null;
+    try {
+      return (await unseal(keys, value)) as T;
+    } catch {
+      return null;
+    }
+  };
+  return { timer: await open(live.timer), command: await open(live.command) };
+};
+
+// The backend App uses: encrypts and decrypts on the way through, per the user's vault
+export function withEncryption(backend: SyncBackend): SyncBackend {
+  return {
+    ...backend,
+    pushSessions: async (userId, sessions) => {
+      const keys = await keysToUse(backend, userId);
+      await backend.pushSessions(userId, keys ? await Promise.all(sessions.map((s) => sealSession(keys, s))) : sessions);
+    },
+    pullSessions: async (userId, cursor) => {
+      const keys = await keysToUse(backend, userId);
+      const pull = await backend.pullSessions(userId, cursor);
+      const sessions = await Promise.all(pull.sessions.map((s) => openSession(keys, s)));
+      return { ...pull, sessions: sessions.filter((s): s is SessionRecord => s !== null) };
+    },
+    pushDocs: async (userId, docs) => {
+      const keys = await keysToUse(backend, userId);
+      await backend.pushDocs(userId, keys ? await Promise.all(docs.map((d) => sealDoc(keys, d))) : docs);
+    },
+    // Once encrypted, documents left from before are ignored (they were deleted when it was turned on)
+    pullDocs: async (userId, cursor) => {
+      const keys = await keysToUse(backend, userId);
+      const pull = await backend.pullDocs(userId, cursor);
+      if (!keys) return { ...pull, docs: pull.docs.filter((d) => !d.key.startsWith(DOC_PREFIX)) };
+      const docs = await Promise.all(pull.docs.map((d) => openDoc(keys, d)));
+      return { ...pull, docs: docs.filter((d): d is SyncDoc => d !== null) };
+    },
+    publishLive: async (userId, update) => {
+      const keys = await keysToUse(backend, userId);
+      await backend.publishLive(userId, keys ? await sealLive(keys, update) : update);
+    },
+    // Decrypting is asynchronous; a record overtaken by a newer one is dropped
+    watchLive: (userId, cb) => {
+      let latest = 0;
+      return backend.watchLive(userId, (live) => {
+        const seq = ++latest;
+        current(backend, userId)
+          .then((s) => openLive(s.keys, live))
+          .then((opened) => { if (seq === latest) cb(opened); })
+          .catch(() => { /* ignore */ });
+      });
+    },
+  };
+}
+
+// Create the account's vault. Resolves false if another device got there first; it is
+// then locked here until unlocked with that device's passphrase.
+export async function startEncryption(backend: SyncBackend, userId: string, passphrase: string): Promise<boolean> {
+  const s = await current(backend, userId);
+  if (s.vault) return false;
+  const { vault, keys } = await createVault(passphrase);
+  if (!(await backend.putVault(userId, vault, null))) {
+    await refreshEncryption(backend, userId);
+    return false;
+  }
+  await saveKeys(s.scope, keys);
+  setState({ ...s, vault, keys });
+  return true;
+}
+
+// Resolves false for a wrong passphrase
+export async function unlockEncryption(backend: SyncBackend, userId: string, passphrase: string): Promise<boolean> {
+  await refreshEncryption(backend, userId);
+  const s = state as VaultState;
+  if (!s.vault) return false;
+  const keys = await openVault(s.vault, passphrase);
+  if (!keys) return false;
+  await saveKeys(s.scope, keys);
+  setState({ ...s, keys });
+  return true;
+}
+
+// Forget the key on this device; the passphrase unlocks it again
+export async function lockEncryption(backend: SyncBackend, userId: string): Promise<void> {
+  const s = await current(backend, userId);
+  await saveKeys(s.scope, null);
+  setState({ ...s, keys: null });
+}
+
+// Devices that are already unlocked keep working, since the data key stays the same.
+// Resolves false for a wrong current passphrase or when another device changed it meanwhile.
+export async function changePassphrase(backend: SyncBackend, userId: string, currentPassphrase: string, nextPassphrase: string): Promise<boolean> {
+  await refreshEncryption(backend, userId);
+  const s = state as VaultState;
+  if (!s.vault) return false;
+  const vault = await rewrapVault(s.vault, currentPassphrase, nextPassphrase);
+  if (!vault || !(await backend.putVault(userId, vault, s.vault.changedAt))) return false;
+  setState({ ...s, vault });
+  return true;
+}
@@ -5,35 +5,59 @@ import {
   signInWithPopup,
   onAuthStateChanged,
   signOut,
-  type User,
+  connectAuthEmulator,
+  type Auth,
 } from 'firebase/auth';
 import {
   getFirestore,
+  connectFirestoreEmulator,
   collection,
-  addDoc,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
   query,
   where,
   orderBy,
   limit,
+  getDoc,
   getDocs,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type Firestore,
+  type QueryDocumentSnapshot,
 } from 'firebase/firestore';
+import type { Interruption, RunMode, SegmentAdjustment, SegmentLog } from '../utils/sessionEngine';
+import { isSessionId, legacySessionId, type SessionRecord, type SessionSource } from '../utils/sessions';
+import { getTodayKeyLocal } from '../utils/dates';
+import { mergeDocs, type SyncDoc } from '../utils/fieldSync';
+import { normalizeVault, type Vault } from '../utils/e2e';
+import type { LiveDoc } from '../utils/liveTimer';
+import { normalizeRoom, type Room, type RoomMember } from '../utils/rooms';
+import { authEmulatorUrl, firebaseOptions, firestoreEmulatorHost } from './firebaseConfig';
+import type { DocPull, SessionPull, SyncBackend } from './sync';
 
-const app = initializeApp({
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-});
-
-export const auth = getAuth(app);
-export const db = getFirestore(app);
-
-const provider = new GoogleAuthProvider();
-export const signInWithGoogle = () => signInWithPopup(auth, provider);
-export const onAuth = (cb: (user: User | null) => void) => onAuthStateChanged(auth, cb);
-export const logout = () => signOut(auth);
+// Loaded only when Firebase is the configured backend (services/sync), and initialized on
+// first use
+let services: { auth: Auth; db: Firestore } | null = null;
+const firebase = () => {
+  if (!services) {
+    const options = firebaseOptions();
+    if (!options) throw new Error('Firebase is not configured');
+    const app = initializeApp(options);
+    services = { auth: getAuth(app), db: getFirestore(app) };
+    // Local testing against the Firebase emulators, e.g. `firebase emulators:start`
+    if (firestoreEmulatorHost) {
+      const [host, port] = firestoreEmulatorHost.split(':');
+      connectFirestoreEmulator(services.db, host, Number(port) || 8080);
+    }
+    if (authEmulatorUrl) connectAuthEmulator(services.auth, authEmulatorUrl, { disableWarnings: true });
+  }
+  return services;
+};
 
 export type CloudSession = {
   user_id: string;
@@ -46,24 +70,225 @@ export type CloudSession = {
   pomodoros: number;
   started_at: number; // epoch ms
   ended_at: number;   // epoch ms
-  mode: 'workday' | 'cycles';
+  mode: RunMode;
+  adjustments?: SegmentAdjustment[];
+  segments?: SegmentLog[];
+  interruptions?: Interruption[];
+  task_id?: string;
+  source?: SessionSource;
+  edited_at?: number;
+  sealed?: string;
+  updated_at: number;
+};
+
+export const toCloudSession = (rec: SessionRecord, userId: string): CloudSession => ({
+  user_id: userId,
+  date_key: rec.dateKey,
+  profile: rec.profile,
+  active: rec.active,
+  break: rec.break,
+  short: rec.short,
+  long: rec.long,
+  pomodoros: rec.pomodoros,
+  started_at: rec.startedAt,
+  ended_at: rec.endedAt,
+  mode: rec.mode,
+  // Firestore rejects undefined fields
+  ...(rec.adjustments ? { adjustments: rec.adjustments } : {}),
+  ...(rec.segments ? { segments: rec.segments } : {}),
+  ...(rec.interruptions ? { interruptions: rec.interruptions } : {}),
+  ...(rec.taskId ? { task_id: rec.taskId } : {}),
+  ...(rec.source ? { source: rec.source } : {}),
+  ...(rec.editedAt ? { edited_at: rec.editedAt } : {}),
+  ...(rec.sealed ? { sealed: rec.sealed } : {}),
+  updated_at: rec.updatedAt,
+});
+
+// Docs added before ids were stable have random ids; they map to the session's legacy id
+export const fromCloudSession = (c: CloudSession & { id?: string }): SessionRecord => ({
+  id: isSessionId(c.id) ? c.id : legacySessionId(c.ended_at),
+  dateKey: c.date_key,
+  profile: c.profile,
+  active: c.active,
+  break: c.break,
+  short: c.short,
+  long: c.long,
+  pomodoros: c.pomodoros,
+  startedAt: c.started_at,
+  endedAt: c.ended_at,
+  mode: c.mode,
+  adjustments: c.adjustments,
+  segments: c.segments,
+  interruptions: c.interruptions,
+  taskId: c.task_id,
+  source: c.source,
+  editedAt: c.edited_at,
+  sealed: c.sealed,
+  updatedAt: c.updated_at ?? c.edited_at ?? c.ended_at,
+});
+
+// The session id is the document id, so saving the same session again overwrites it.
+// `synced_at` is set by the server and drives incremental pulls.
+const saveSession = async (id: string, s: CloudSession) => {
+  await setDoc(doc(firebase().db, 'sessions', id), { ...s, synced_at: serverTimestamp() });
 };
 
-export const saveSession = async (s: CloudSession) => {
-  await addDoc(collection(db, 'sessions'), s);
+// Deleted sessions stay behind as tombstones, so incremental pulls on other devices see
+// the delete. Saving the session again replaces the tombstone, as on the REST server.
+const deleteSession = async (userId: string, id: string) => {
+  await setDoc(doc(firebase().db, 'sessions', id), { user_id: userId, deleted: true, synced_at: serverTimestamp() });
 };
 
-export const fetchLastSessions = async (userId: string, days = 30) => {
+const sessionsOf = (userId: string) => [collection(firebase().db, 'sessions'), where('user_id', '==', userId)] as const;
+
+const syncedAt = (d: QueryDocumentSnapshot) => {
+  const t = d.get('synced_at');
+  return t instanceof Timestamp ? t.toMillis() : 0;
+};
+
+const fetchLastSessions = async (userId: string, days = 30) => {
   const since = new Date();
   since.setDate(since.getDate() - days);
-  const sinceKey = `${since.getFullYear()}-${String(since.getMonth() + 1).padStart(2, '0')}-${String(since.getDate()).padStart(2, '0')}`;
-  const q = query(
-    collection(db, 'sessions'),
-    where('user_id', '==', userId),
-    where('date_key', '>=', sinceKey),
-    orderBy('date_key', 'desc'),
-    limit(500)
-  );
-  const snap = await getDocs(q);
-  return snap.docs.map(d => ({ id: d.id, ...(d.data() as any) })) as (CloudSession & { id: string })[];
+  const sinceKey = getTodayKeyLocal(since);
+  const [sessions, ofUser] = sessionsOf(userId);
+  const snap = await getDocs(query(sessions, ofUser, where('date_key', '>=', sinceKey), orderBy('date_key', 'desc'), limit(500)));
+  return snap.docs;
+};
+
+const fetchChangedSessions = async (userId: string, since: number) => {
+  const [sessions, ofUser] = sessionsOf(userId);
+  const snap = await getDocs(query(sessions, ofUser, where('synced_at', '>', Timestamp.fromMillis(since)), orderBy('synced_at'), limit(500)));
+  return snap.docs;
+};
+
+// A first pull covers the last 30 days (tombstones have no day, so it skips them), later
+// ones what changed since the cursor (a server time). Docs added before ids were stable
+// are moved to their session's id.
+const pullSessions = async (userId: string, cursor: string | null): Promise<SessionPull> => {
+  const docs = cursor === null ? await fetchLastSessions(userId, 30) : await fetchChangedSessions(userId, Number(cursor) || 0);
+  const tombstones = docs.filter((d) => d.get('deleted') === true);
+  const live = docs.filter((d) => d.get('deleted') !== true);
+  const sessions = live.map((d) => fromCloudSession({ id: d.id, ...(d.data() as CloudSession) }));
+  const moved = new Set<string>();
+  await Promise.all(live.map(async (d, i) => {
+    const rec = sessions[i];
+    if (d.id === rec.id) return;
+    if (!moved.has(rec.id)) {
+      moved.add(rec.id);
+      await saveSession(rec.id, toCloudSession(rec, userId));
+    }
+    // The session lives on under its new id, so no tombstone
+    await deleteDoc(d.ref);
+  }));
+  const latest = Math.max(Number(cursor) || 0, ...docs.map(syncedAt));
+  return { sessions, deleted: tombstones.map((d) => d.id), cursor: String(latest) };
+};
+
+// Settings, profiles and diary days live in 'docs', one document per user and key.
+// Pushes merge field by field in a transaction, so concurrent devices never drop each other's fields.
+const docRef = (userId: string, key: string) => doc(firebase().db, 'docs', `${userId}:${encodeURIComponent(key)}`);
+
+const pushDocs = async (userId: string, docs: SyncDoc[]) => {
+  const { db } = firebase();
+  await Promise.all(docs.map((d) => runTransaction(db, async (tx) => {
+    const ref = docRef(userId, d.key);
+    const snap = await tx.get(ref);
+    const current = snap.exists() ? { key: d.key, fields: snap.get('fields') as SyncDoc['fields'] } : undefined;
+    tx.set(ref, { user_id: userId, key: d.key, fields: mergeDocs(current, d).fields, synced_at: serverTimestamp() });
+  })));
+};
+
+const pullDocs = async (userId: string, cursor: string | null): Promise<DocPull> => {
+  const docs = collection(firebase().db, 'docs');
+  const ofUser = where('user_id', '==', userId);
+  const snap = await getDocs(cursor === null
+    ? query(docs, ofUser)
+    : query(docs, ofUser, where('synced_at', '>', Timestamp.fromMillis(Number(cursor) || 0)), orderBy('synced_at')));
+  const latest = Math.max(Number(cursor) || 0, ...snap.docs.map(syncedAt));
+  return {
+    docs: snap.docs.map((d) => ({ key: d.get('key') as string, fields: d.get('fields') as SyncDoc['fields'] })),
+    cursor: String(latest),
+  };
+};
+
+const deleteDocs = async (userId: string, keys: string[]) => {
+  await Promise.all(keys.map((key) => deleteDoc(docRef(userId, key))));
+};
+
+// One vault per user; replaced in a transaction so two devices cannot both change it
+const vaultRef = (userId: string) => doc(firebase().db, 'vaults', userId);
+
+const getVault = async (userId: string) => {
+  const snap = await getDoc(vaultRef(userId));
+  return snap.exists() ? normalizeVault(snap.data()) : null;
+};
+
+const putVault = (userId: string, vault: Vault, expected: number | null) =>
+  runTransaction(firebase().db, async (tx) => {
+    const ref = vaultRef(userId);
+    const snap = await tx.get(ref);
+    const current = snap.exists() ? normalizeVault(snap.data()) : null;
+    if ((current?.changedAt ?? null) !== expected) return false;
+    tx.set(ref, vault);
+    return true;
+  });
+
+// The live timer is one document per user; updates merge so the timer and the latest
+// command never overwrite each other. Round-tripping through JSON drops undefined fields.
+const liveRef = (userId: string) => doc(firebase().db, 'live', userId);
+
+const publishLive = async (userId: string, update: Partial<LiveDoc>) => {
+  await setDoc(liveRef(userId), JSON.parse(JSON.stringify(update)) as Partial<LiveDoc>, { merge: true });
+};
+
+const watchLive = (userId: string, cb: (live: LiveDoc) => void) =>
+  onSnapshot(liveRef(userId), (snap) => {
+    cb({ timer: (snap.get('timer') as LiveDoc['timer']) ?? null, command: (snap.get('command') as LiveDoc['command']) ?? null });
+  }, () => { /* not allowed, e.g. signed out: no live timer */ });
+
+// Focus rooms are documents keyed by code; members are a map updated field by field
+const roomRef = (code: string) => doc(firebase().db, 'rooms', code);
+
+const createRoom = (_userId: string, room: Room) =>
+  runTransaction(firebase().db, async (tx) => {
+    const ref = roomRef(room.code);
+    if ((await tx.get(ref)).exists()) return false;
+    tx.set(ref, JSON.parse(JSON.stringify(room)) as Room);
+    return true;
+  });
+
+// null only when the room does not exist; Firestore retries network errors itself, and
+// an error here (e.g. signed out) leaves the room as it was
+const watchRoom = (_userId: string, code: string, cb: (room: Room | null) => void) =>
+  onSnapshot(roomRef(code), (snap) => cb(snap.exists() ? normalizeRoom(snap.data()) : null), () => { /* ignore */ });
+
+const setRoomMember = async (userId: string, code: string, member: RoomMember | null) => {
+  await updateDoc(roomRef(code), { [`members.${userId}`]: member ?? deleteField() });
+};
+
+export const firebaseBackend: SyncBackend = {
+  id: 'firebase',
+  signInLabel: 'Sign in with Google',
+  onAuth: (cb) => onAuthStateChanged(firebase().auth, (user) => cb(user ? { id: user.uid, name: user.displayName ?? undefined } : null)),
+  signIn: async () => {
+    await signInWithPopup(firebase().auth, new GoogleAuthProvider());
+  },
+  signOut: () => signOut(firebase().auth),
+  pushSessions: async (userId, sessions) => {
+    await Promise.all(sessions.map((s) => saveSession(s.id, toCloudSession(s, userId))));
+  },
+  pullSessions,
+  deleteSessions: async (userId, ids) => {
+    await Promise.all(ids.map((id) => deleteSession(userId, id)));
+  },
+  pushDocs,
+  pullDocs,
+  deleteDocs,
+  getVault,
+  putVault,
+  publishLive,
+  watchLive,
+  createRoom,
+  watchRoom,
+  setRoomMember,
 };
@@ -0,0 +1,25 @@
+import type { FirebaseOptions } from 'firebase/app';
+
+// Firebase settings from VITE_FIREBASE_*, kept apart from services/firebase so checking
+// them does not load the SDK. With the Firestore emulator set, a `demo-` project stands in
+// for a real one; the emulators never forward demo projects to production.
+const env = import.meta.env;
+
+export const firestoreEmulatorHost: string = env.VITE_FIRESTORE_EMULATOR_HOST || ''; // host:port
+export const authEmulatorUrl: string = env.VITE_FIREBASE_AUTH_EMULATOR_URL || '';   // http://host:port
+
+// null when Firebase is not configured
+export function firebaseOptions(): FirebaseOptions | null {
+  const emulated = firestoreEmulatorHost !== '';
+  const apiKey = env.VITE_FIREBASE_API_KEY || (emulated ? 'demo-api-key' : '');
+  const projectId = env.VITE_FIREBASE_PROJECT_ID || (emulated ? 'demo-tempo' : '');
+  if (!apiKey || !projectId) return null;
+  return {
+    apiKey,
+    projectId,
+    authDomain: env.VITE_FIREBASE_AUTH_DOMAIN || undefined,
+    appId: env.VITE_FIREBASE_APP_ID || undefined,
+    storageBucket: env.VITE_FIREBASE_STORAGE_BUCKET || undefined,
+    messagingSenderId: env.VITE_FIREBASE_MESSAGING_SENDER_ID || undefined,
+  };
+}
@@ -0,0 +1,135 @@
+import { STORAGE } from '../utils/constants';
+import { normalizeVault } from '../utils/e2e';
+import type { LiveDoc } from '../utils/liveTimer';
+import { normalizeRoom, type Room } from '../utils/rooms';
+import { normalizeSession, type SessionRecord } from '../utils/sessions';
+import { readJson, writeJson } from '../utils/storage';
+import type { DocPull, SyncBackend, SyncUser } from './sync';
+
+const POLL_RETRY_MS = 5_000;
+
+// Sign-in for the self-hosted server: a token issued by `npm run sync-server -- add-user <name>`
+type RestAuth = { token: string; user: SyncUser };
+
+// Sync against the reference server in server/sync-server.mjs, or anything speaking its
+// JSON API. The signed-in user is remembered so queued writes survive an offline start.
+export function restBackend(baseUrl: string): SyncBackend {
+  const base = baseUrl.replace(/\/+$/, '');
+  const listeners = new Set<(user: SyncUser | null) => void>();
+  let auth = readJson<RestAuth | null>(STORAGE.SYNC_AUTH, null);
+
+  const setAuth = (next: RestAuth | null) => {
+    auth = next;
+    writeJson(STORAGE.SYNC_AUTH, next);
+    listeners.forEach((cb) => cb(next?.user ?? null));
+  };
+
+  const api = async <T>(path: string, init: RequestInit = {}, token = auth?.token): Promise<T> => {
+    const res = await fetch(`${base}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+    if (res.status === 401 && token === auth?.token) setAuth(null);
+    if (!res.ok) throw new Error(`Sync server responded ${res.status}`);
+    return (await res.json()) as T;
+  };
+
+  // Long polling: the server answers once the record's rev moved past `after`, or after a
+  // while anyway; `onChange` gets each new revision until the returned function is called
+  const watch = <T extends { rev: number }>(path: string, onChange: (res: T) => void) => {
+    const abort = new AbortController();
+    let rev: number | null = null;
+    const poll = async () => {
+      while (!abort.signal.aborted) {
+        try {
+          const sep = path.includes('?') ? '&' : '?';
+          const res = await api<T>(rev === null ? path : `${path}${sep}after=${rev}`, { signal: abort.signal });
+          if (res.rev !== rev) {
+            rev = res.rev;
+            onChange(res);
+          }
+        } catch {
+          if (!abort.signal.aborted) await new Promise((r) => setTimeout(r, POLL_RETRY_MS));
+        }
+      }
+    };
+    void poll();
+    return () => abort.abort();
+  };
+
+  return {
+    id: 'rest',
+    signInLabel: 'Sign in',
+    onAuth: (cb) => {
+      listeners.add(cb);
+      // Report the remembered user right away, then check the token is still valid
+      const remembered = auth;
+      queueMicrotask(() => cb(remembered?.user ?? null));
+      if (remembered) {
+        api<SyncUser>('/api/me', {}, remembered.token)
+          .then((user) => { if (auth?.token === remembered.token) setAuth({ token: remembered.token, user }); })
+          .catch(() => { /* offline: keep the remembered user */ });
+      }
+      return () => { listeners.delete(cb); };
+    },
+    signIn: async () => {
+      const token = window.prompt('Sync server token')?.trim();
+      if (!token) return;
+      try {
+        setAuth({ token, user: await api<SyncUser>('/api/me', {}, token) });
+      } catch {
+        window.alert('The sync server did not accept this token or could not be reached');
+      }
+    },
+    signOut: async () => setAuth(null),
+    pushSessions: async (_userId, sessions: SessionRecord[]) => {
+      if (sessions.length === 0) return;
+      await api('/api/sessions', { method: 'PUT', body: JSON.stringify({ sessions }) });
+    },
+    pullSessions: async (_userId, cursor) => {
+      const res = await api<{ sessions: unknown[]; deleted: string[]; cursor: string }>(
+        `/api/sessions${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`,
+      );
+      return {
+        sessions: res.sessions.map(normalizeSession).filter((s): s is SessionRecord => s !== null),
+        deleted: res.deleted,
+        cursor: res.cursor,
+      };
+    },
+    deleteSessions: async (_userId, ids) => {
+      await api('/api/sessions/delete', { method: 'POST', body: JSON.stringify({ ids }) });
+    },
+    // The server merges pushed documents field by field, like the clients do
+    pushDocs: async (_userId, docs) => {
+      if (docs.length === 0) return;
+      await api('/api/docs', { method: 'PUT', body: JSON.stringify({ docs }) });
+    },
+    pullDocs: (_userId, cursor) => api<DocPull>(`/api/docs${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`),
+    deleteDocs: async (_userId, keys) => {
+      if (keys.length === 0) return;
+      await api('/api/docs/delete', { method: 'POST', body: JSON.stringify({ keys }) });
+    },
+    getVault: async () => normalizeVault((await api<{ vault: unknown }>('/api/vault')).vault),
+    putVault: async (_userId, vault, expected) => {
+      const res = await api<{ saved: boolean }>('/api/vault', { method: 'PUT', body: JSON.stringify({ vault, expected }) });
+      return res.saved;
+    },
+    publishLive: async (_userId, update) => {
+      await api('/api/live', { method: 'PUT', body: JSON.stringify(update) });
+    },
+    watchLive: (_userId, cb) =>
+      watch<LiveDoc & { rev: number }>('/api/live', (res) => cb({ timer: res.timer, command: res.command })),
+    createRoom: async (_userId, room: Room) => {
+      const res = await api<{ created: boolean }>('/api/rooms', { method: 'POST', body: JSON.stringify({ room }) });
+      return res.created;
+    },
+    watchRoom: (_userId, code, cb) =>
+      watch<{ rev: number; room: unknown }>(`/api/rooms/${encodeURIComponent(code)}`, (res) => cb(normalizeRoom(res.room))),
+    setRoomMember: async (_userId, code, member) => {
+      await api(`/api/rooms/${encodeURIComponent(code)}/member`, { method: 'PUT', body: JSON.stringify({ member }) });
+    },
+  };
+}
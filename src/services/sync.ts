@@ -0,0 +1,185 @@
+import { STORAGE } from '../utils/constants';
+import { docValues, hasLocalChanges, mergeDocs, stampChanges, type SyncDoc } from '../utils/fieldSync';
+import type { Vault } from '../utils/e2e';
+import type { LiveDoc } from '../utils/liveTimer';
+import type { Room, RoomMember } from '../utils/rooms';
+import { createOutbox, idbOutboxStore } from '../utils/outbox';
+import { deleteSessions, loadSessions, newerSessions, saveSessions, type SessionRecord } from '../utils/sessions';
+import { readJson, writeJson } from '../utils/storage';
+import { applySyncedData, loadSyncedDocs, readSyncedData, saveSyncedDocs } from '../utils/syncedData';
+import { startEncryption, withEncryption } from './e2e';
+import { firebaseOptions } from './firebaseConfig';
+import { restBackend } from './rest';
+
+export type SyncUser = { id: string; name?: string };
+
+export type SessionPull = {
+  sessions: SessionRecord[];
+  deleted: string[]; // ids removed on another device
+  cursor: string;    // opaque; pass it back to get only what changed after this pull
+};
+
+export type DocPull = { docs: SyncDoc[]; cursor: string };
+
+// Where sessions, settings, profiles and diary days are synced to, and where the running
+// timer and focus rooms are shared. App only talks to this; Firebase and the self-hosted
+// REST server (services/rest.ts) implement it.
+export type SyncBackend = {
+  id: 'firebase' | 'rest';
+  signInLabel: string;
+  onAuth: (cb: (user: SyncUser | null) => void) => () => void;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  pushSessions: (userId: string, sessions: SessionRecord[]) => Promise<void>;
+  pullSessions: (userId: string, cursor: string | null) => Promise<SessionPull>;
+  deleteSessions: (userId: string, ids: string[]) => Promise<void>;
+  // Stored documents are merged field by field, keeping the later change (utils/fieldSync)
+  pushDocs: (userId: string, docs: SyncDoc[]) => Promise<void>;
+  pullDocs: (userId: string, cursor: string | null) => Promise<DocPull>;
+  deleteDocs: (userId: string, keys: string[]) => Promise<void>;
+  // The wrapped key for encrypted sync (utils/e2e). `putVault` only replaces a vault last
+  // changed at `expected` (null: none yet) and resolves false otherwise.
+  getVault: (userId: string) => Promise<Vault | null>;
+  putVault: (userId: string, vault: Vault, expected: number | null) => Promise<boolean>;
+  // The running timer shared between devices (utils/liveTimer); `watchLive` reports the
+  // current record right away and then every change, until the returned function is called
+  publishLive: (userId: string, update: Partial<LiveDoc>) => Promise<void>;
+  watchLive: (userId: string, cb: (live: LiveDoc) => void) => () => void;
+  // Focus rooms (utils/rooms), open to every user who has the code. `createRoom` resolves
+  // false when the code is taken; members are keyed by user id. `watchRoom` reports null
+  // only when the room does not exist, never for a failed connection.
+  createRoom: (userId: string, room: Room) => Promise<boolean>;
+  watchRoom: (userId: string, code: string, cb: (room: Room | null) => void) => () => void;
+  setRoomMember: (userId: string, code: string, member: RoomMember | null) => Promise<void>;
+};
+
+// The Firebase SDK is a separate chunk, fetched the first time the backend is used.
+// Subscriptions start once it is in; unsubscribing earlier cancels them.
+const lazyFirebase = (): SyncBackend => {
+  let loading: Promise<SyncBackend> | null = null;
+  const load = () => (loading ||= import('./firebase').then((m) => m.firebaseBackend));
+  const subscribe = (start: (backend: SyncBackend) => () => void) => {
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    load()
+      .then((backend) => { if (!cancelled) stop = start(backend); })
+      .catch(() => { /* offline: the chunk loads on the next attempt */ });
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  };
+  return {
+    id: 'firebase',
+    signInLabel: 'Sign in with Google',
+    onAuth: (cb) => subscribe((b) => b.onAuth(cb)),
+    signIn: async () => (await load()).signIn(),
+    signOut: async () => (await load()).signOut(),
+    pushSessions: async (...args) => (await load()).pushSessions(...args),
+    pullSessions: async (...args) => (await load()).pullSessions(...args),
+    deleteSessions: async (...args) => (await load()).deleteSessions(...args),
+    pushDocs: async (...args) => (await load()).pushDocs(...args),
+    pullDocs: async (...args) => (await load()).pullDocs(...args),
+    deleteDocs: async (...args) => (await load()).deleteDocs(...args),
+    getVault: async (...args) => (await load()).getVault(...args),
+    putVault: async (...args) => (await load()).putVault(...args),
+    publishLive: async (...args) => (await load()).publishLive(...args),
+    watchLive: (userId, cb) => subscribe((b) => b.watchLive(userId, cb)),
+    createRoom: async (...args) => (await load()).createRoom(...args),
+    watchRoom: (userId, code, cb) => subscribe((b) => b.watchRoom(userId, code, cb)),
+    setRoomMember: async (...args) => (await load()).setRoomMember(...args),
+  };
+};
+
+// Picked by VITE_SYNC_BACKEND: 'firebase', or 'rest' with VITE_SYNC_URL. Builds that
+// predate the setting use Firebase when it is configured. A backend missing its settings
+// is left out, so Tempo stays local and shows no sign-in or sync buttons.
+const selectBackend = (): SyncBackend | null => {
+  const env = import.meta.env;
+  const name = env.VITE_SYNC_BACKEND || (firebaseOptions() ? 'firebase' : '');
+  if (name === 'firebase' && firebaseOptions()) return lazyFirebase();
+  if (name === 'rest' && env.VITE_SYNC_URL) return restBackend(env.VITE_SYNC_URL);
+  if (name) console.warn(`Sync backend "${name}" is not configured; see .env.example`);
+  return null;
+};
+
+const selected = selectBackend();
+export const syncBackend = selected && withEncryption(selected);
+
+// Session writes go through this queue so they are retried until the backend has them.
+// App keeps it flushing while signed in; counts are announced with `outbox-updated`.
+export const outbox = createOutbox({
+  store: idbOutboxStore,
+  send: async (op) => {
+    if (!syncBackend) throw new Error('No sync backend configured');
+    if (op.kind === 'save') await syncBackend.pushSessions(op.userId, [op.session]);
+    else await syncBackend.deleteSessions(op.userId, [op.sessionId]);
+  },
+  onChange: (counts) => window.dispatchEvent(new CustomEvent('outbox-updated', { detail: counts })),
+});
+
+// Pull what changed since the last sync, keep the later copy of every session on both
+// sides and apply remote deletes. Callers dispatch `diary-updated` afterwards.
+export async function syncSessions(backend: SyncBackend, userId: string): Promise<void> {
+  const cursors = readJson<Record<string, string>>(STORAGE.SYNC_CURSORS, {});
+  const key = `${backend.id}:${userId}`;
+  const pull = await backend.pullSessions(userId, cursors[key] ?? null);
+  const local = await loadSessions();
+  const remoteIds = new Set(pull.sessions.map((s) => s.id));
+  await backend.pushSessions(userId, newerSessions(pull.sessions, local).filter((s) => remoteIds.has(s.id)));
+  await saveSessions(newerSessions(local, pull.sessions));
+  if (pull.deleted.length > 0) await deleteSessions(pull.deleted);
+  writeJson(STORAGE.SYNC_CURSORS, { ...cursors, [key]: pull.cursor });
+}
+
+// Settings, prefs, profiles and diary days: fields changed here since the last sync are
+// stamped now, then merged with the remote copies field by field. On a device's first
+// sync its fields count as oldest, so signing in adopts the account's values and only
+// adds what exists just here. Callers dispatch `settings-synced` and `diary-updated`.
+export async function syncDocs(backend: SyncBackend, userId: string): Promise<void> {
+  const scope = `${backend.id}:${userId}`;
+  const cursors = readJson<Record<string, string>>(STORAGE.SYNC_CURSORS, {});
+  const cursorKey = `${scope}:docs`;
+  const synced = await loadSyncedDocs(scope);
+  const local = stampChanges(await readSyncedData(), synced ?? {}, synced ? Date.now() : 0);
+  const pull = await backend.pullDocs(userId, synced ? cursors[cursorKey] ?? null : null);
+  const merged = { ...local };
+  pull.docs.forEach((d) => { merged[d.key] = mergeDocs(local[d.key], d); });
+  const changedHere = Object.values(local).filter((d) => hasLocalChanges(d, synced?.[d.key]));
+  await backend.pushDocs(userId, changedHere.map((d) => merged[d.key]));
+  // Only write back what the remote side changed
+  const values = (d: SyncDoc | undefined) => JSON.stringify(d ? docValues(d) : null);
+  await applySyncedData(pull.docs.map((d) => merged[d.key]).filter((d) => values(d) !== values(local[d.key])));
+  await saveSyncedDocs(scope, merged);
+  writeJson(STORAGE.SYNC_CURSORS, { ...cursors, [cursorKey]: pull.cursor });
+}
+
+const UPLOAD_BATCH = 200;
+
+// Turn on encryption (services/e2e) for the account: sync first, fetch every session the
+// backend has, then upload everything again encrypted and delete the readable documents.
+// Resolves false when another device turned it on meanwhile.
+export async function enableEncryption(backend: SyncBackend, userId: string, passphrase: string): Promise<boolean> {
+  await syncSessions(backend, userId);
+  await syncDocs(backend, userId);
+  let cursor = '0';
+  for (;;) {
+    const pull = await backend.pullSessions(userId, cursor);
+    await saveSessions(newerSessions(await loadSessions(), pull.sessions));
+    // Deleted sessions must not be uploaded again; a page may hold nothing else
+    if (pull.deleted.length > 0) await deleteSessions(pull.deleted);
+    if (pull.cursor === cursor) break;
+    cursor = pull.cursor;
+  }
+  if (!(await startEncryption(backend, userId, passphrase))) return false;
+  const sessions = await loadSessions();
+  for (let i = 0; i < sessions.length; i += UPLOAD_BATCH) {
+    await backend.pushSessions(userId, sessions.slice(i, i + UPLOAD_BATCH));
+  }
+  const synced = await loadSyncedDocs(`${backend.id}:${userId}`);
+  if (synced) {
+    await backend.pushDocs(userId, Object.values(synced));
+    await backend.deleteDocs(userId, Object.keys(synced));
+  }
+  return true;
+}
@@ -1,3 +1,6 @@
+import { STORAGE } from './constants';
+import { readString } from './storage';
+
 let sharedContext: AudioContext | null = null;
 
 const getAudioContext = (): AudioContext => {
@@ -177,13 +180,9 @@ type VoiceType = 'male' | 'female' | 'system';
 
 // Get voice settings from localStorage
 const getVoiceSettings = () => {
-  try {
-    const voiceType = localStorage.getItem('tempo_voice') as VoiceType || 'system';
-    const voiceVolume = parseFloat(localStorage.getItem('tempo_voice_volume') || '0.8');
-    return { voiceType, voiceVolume: Math.max(0.1, Math.min(1.0, voiceVolume)) };
-  } catch {
-    return { voiceType: 'system' as VoiceType, voiceVolume: 0.8 };
-  }
+  const voiceType = (readString(STORAGE.VOICE) as VoiceType | null) || 'system';
+  const voiceVolume = parseFloat(readString(STORAGE.VOICE_VOLUME) || '0.8');
+  return { voiceType, voiceVolume: Math.max(0.1, Math.min(1.0, Number.isNaN(voiceVolume) ? 0.8 : voiceVolume)) };
 };
 
 // Find appropriate voice based on preferences
@@ -0,0 +1,232 @@
+import { STORAGE } from './constants';
+import { normalizeConfig, type SessionConfig } from './sessionEngine';
+import { loadDiary, normalizeDiaryEntry, saveDiaryDays, type DiaryStore } from './diary';
+import { loadSessions, normalizeSession, replaceSessions, saveSessions, type SessionRecord } from './sessions';
+import {
+  readJson,
+  readProfiles,
+  readSettings,
+  readString,
+  writeJson,
+  writeProfiles,
+  writeString,
+  type ProfileStore,
+} from './storage';
+import { isTask, readTasks, writeTasks, type Task } from './tasks';
+
+export const BACKUP_VERSION = 1;
+
+// Everything Tempo stores locally, as written by the JSON export
+export type TempoBackup = {
+  app: 'tempo';
+  version: number;
+  exportedAt: number; // epoch ms
+  sessions: SessionRecord[];
+  diary: DiaryStore;       // diary days, keyed by day
+  profiles: ProfileStore;  // STORAGE.PROFILES, keyed by name
+  settings: SessionConfig | null; // STORAGE.SETTINGS
+  tasks: Task[];
+  goals: Record<string, unknown> | null;
+  prefs: Record<string, string>; // theme, sound, voice, haptics, current profile...
+};
+
+// Plain string preferences included in backups
+export const PREF_KEYS = [
+  STORAGE.THEME,
+  STORAGE.HAPTICS,
+  STORAGE.SOUND,
+  STORAGE.VOICE,
+  STORAGE.VOICE_VOLUME,
+  STORAGE.CURRENT_PROFILE,
+  STORAGE.ACTIVE_TASK,
+] as const;
+
+// The parts kept in localStorage besides profiles and tasks
+const readExtras = () => {
+  const prefs: Record<string, string> = {};
+  PREF_KEYS.forEach((k) => {
+    const v = readString(k);
+    if (v != null) prefs[k] = v;
+  });
+  return {
+    settings: readSettings(),
+    goals: readJson<Record<string, unknown> | null>(STORAGE.GOALS, null),
+    prefs,
+  };
+};
+
+export async function buildBackup(now: number = Date.now()): Promise<TempoBackup> {
+  const [sessions, diary] = await Promise.all([loadSessions(), loadDiary()]);
+  return {
+    app: 'tempo',
+    version: BACKUP_VERSION,
+    exportedAt: now,
+    sessions,
+    diary,
+    profiles: readProfiles(),
+    tasks: readTasks(),
+    ...readExtras(),
+  };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type BackupCheck = {
+  backup: TempoBackup | null;
+  errors: string[];   // the file cannot be restored
+  warnings: string[]; // entries that were dropped while reading it
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Validate a JSON export; invalid entries are dropped and reported instead of failing the whole file
+export function parseBackup(text: string): BackupCheck {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['Not a valid JSON file'], warnings };
+  }
+  if (!isObject(data) || data.app !== 'tempo') {
+    return { backup: null, errors: ['Not a Tempo backup'], warnings };
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    return { backup: null, errors: [`Unsupported backup version: ${String(data.version)}`], warnings };
+  }
+
+  if (!Array.isArray(data.sessions)) errors.push('Missing sessions list');
+  if (data.diary != null && !isObject(data.diary)) errors.push('Invalid diary');
+  if (data.profiles != null && !isObject(data.profiles)) errors.push('Invalid profiles');
+  if (data.tasks != null && !Array.isArray(data.tasks)) errors.push('Invalid tasks');
+  if (errors.length) return { backup: null, errors, warnings };
+
+  const rawSessions = data.sessions as unknown[];
+  // Sessions from older exports are upgraded like stored ones
+  const sessions = rawSessions.map(normalizeSession).filter((x): x is SessionRecord => x !== null);
+  if (sessions.length < rawSessions.length) warnings.push(`${rawSessions.length - sessions.length} invalid session(s) skipped`);
+
+  const diary: DiaryStore = {};
+  let badDays = 0;
+  Object.entries((data.diary ?? {}) as Record<string, unknown>).forEach(([day, v]) => {
+    const entry = /^\d{4}-\d{2}-\d{2}$/.test(day) ? normalizeDiaryEntry(v) : null;
+    if (entry) diary[day] = entry;
+    else badDays++;
+  });
+  if (badDays) warnings.push(`${badDays} invalid diary day(s) skipped`);
+
+  const profiles: ProfileStore = {};
+  let badProfiles = 0;
+  Object.entries((data.profiles ?? {}) as Record<string, unknown>).forEach(([name, v]) => {
+    if (name.trim() && isObject(v)) profiles[name] = normalizeConfig(v);
+    else badProfiles++;
+  });
+  if (badProfiles) warnings.push(`${badProfiles} invalid profile(s) skipped`);
+
+  const rawTasks = (data.tasks ?? []) as unknown[];
+  const tasks = rawTasks.filter(isTask);
+  if (tasks.length < rawTasks.length) warnings.push(`${rawTasks.length - tasks.length} invalid task(s) skipped`);
+
+  const prefs: Record<string, string> = {};
+  if (isObject(data.prefs)) {
+    (PREF_KEYS as readonly string[]).forEach((k) => {
+      const v = (data.prefs as Record<string, unknown>)[k];
+      if (typeof v === 'string') prefs[k] = v;
+    });
+  }
+
+  return {
+    backup: {
+      app: 'tempo',
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+      sessions,
+      diary,
+      profiles,
+      settings: isObject(data.settings) ? normalizeConfig(data.settings) : null,
+      tasks,
+      goals: isObject(data.goals) ? data.goals : null,
+      prefs,
+    },
+    errors,
+    warnings,
+  };
+}
+
+export type KeyDiff = { added: string[]; overwritten: string[]; removed: string[] };
+
+export type BackupPreview = {
+  sessions: KeyDiff;   // by id
+  profiles: KeyDiff;   // by name
+  diaryDays: KeyDiff;  // by day
+  tasks: KeyDiff;      // by id
+  settings: boolean;   // timer settings, goals or preferences change
+};
+
+// Keys only in the backup are added, keys on both sides with different content are
+// overwritten; local-only keys are removed when replacing
+const diffKeys = (local: Record<string, unknown>, incoming: Record<string, unknown>, mode: RestoreMode): KeyDiff => {
+  const added: string[] = [];
+  const overwritten: string[] = [];
+  Object.keys(incoming).forEach((k) => {
+    if (!(k in local)) added.push(k);
+    else if (JSON.stringify(local[k]) !== JSON.stringify(incoming[k])) overwritten.push(k);
+  });
+  const removed = mode === 'replace' ? Object.keys(local).filter((k) => !(k in incoming)) : [];
+  return { added, overwritten, removed };
+};
+
+const byId = <T extends { id: string }>(items: T[]): Record<string, T> =>
+  Object.fromEntries(items.map((i) => [i.id, i]));
+
+// Settings, goals and preferences are restored when replacing, or when merging into a
+// device that has none yet
+const restoredExtras = (backup: TempoBackup, mode: RestoreMode) => {
+  const current = readExtras();
+  const keep = <T>(local: T | null, incoming: T | null): T | null =>
+    mode === 'replace' ? incoming : (local ?? incoming);
+  const prefs = mode === 'replace' ? backup.prefs : { ...backup.prefs, ...current.prefs };
+  return {
+    settings: keep(current.settings, backup.settings),
+    goals: keep(current.goals, backup.goals),
+    prefs,
+    changed: JSON.stringify([current.settings, current.goals, current.prefs])
+      !== JSON.stringify([keep(current.settings, backup.settings), keep(current.goals, backup.goals), prefs]),
+  };
+};
+
+export async function previewBackup(backup: TempoBackup, mode: RestoreMode): Promise<BackupPreview> {
+  const current = await buildBackup();
+  return {
+    sessions: diffKeys(byId(current.sessions), byId(backup.sessions), mode),
+    profiles: diffKeys(current.profiles, backup.profiles, mode),
+    diaryDays: diffKeys(current.diary, backup.diary, mode),
+    tasks: diffKeys(byId(current.tasks), byId(backup.tasks), mode),
+    settings: restoredExtras(backup, mode).changed,
+  };
+}
+
+// Write a validated backup. Merging keeps local-only entries and lets the backup win
+// on conflicts; replacing makes this device match the backup.
+export async function applyBackup(backup: TempoBackup, mode: RestoreMode): Promise<void> {
+  const extras = restoredExtras(backup, mode);
+  const merged = <T>(local: Record<string, T>, incoming: Record<string, T>) =>
+    (mode === 'replace' ? incoming : { ...local, ...incoming });
+
+  // Sessions and diary days are put by key, which overwrites matches and keeps the rest
+  await (mode === 'replace' ? replaceSessions(backup.sessions) : saveSessions(backup.sessions));
+  await saveDiaryDays(backup.diary, mode === 'replace');
+  writeTasks(Object.values(merged(byId(readTasks()), byId(backup.tasks))));
+  writeProfiles(merged(readProfiles(), backup.profiles));
+  writeJson(STORAGE.SETTINGS, extras.settings);
+  writeJson(STORAGE.GOALS, extras.goals);
+  PREF_KEYS.forEach((k) => {
+    const v = extras.prefs[k];
+    if (v != null || mode === 'replace') writeString(k, v ?? null);
+  });
+
+  window.dispatchEvent(new CustomEvent('backup-restored'));
+  window.dispatchEvent(new CustomEvent('diary-updated'));
+}
@@ -3,16 +3,27 @@ export const STORAGE = {
   HAPTICS: 'tempo_haptics',
   SETTINGS: 'tempo_settings',
   CUMULATIVE: 'tempo_cumulative',
-  DIARY: 'tempo_diary',
+  DIARY: 'tempo_diary',       // legacy: moved to IndexedDB
   CURRENT_PROFILE: 'tempo_current_profile',
   PROFILES: 'tempo_profiles',
-  SESSIONS: 'tempo_sessions',
+  SESSIONS: 'tempo_sessions', // legacy: moved to IndexedDB
   SOUND: 'tempo_sound',
   VOICE: 'tempo_voice',
   VOICE_VOLUME: 'tempo_voice_volume',
   RUNTIME: 'tempo_runtime',
+  TASKS: 'tempo_tasks',
+  ACTIVE_TASK: 'tempo_active_task',
+  GOALS: 'tempo_goals',
+  SCHEMA_VERSION: 'tempo_schema_version',
+  SYNC_CURSORS: 'tempo_sync_cursors', // per backend and user, see services/sync
+  SYNC_AUTH: 'tempo_sync_auth',       // REST backend token and user
+  DEVICE_ID: 'tempo_device_id',       // identifies this browser to other devices, see utils/liveTimer
+  ROOM: 'tempo_room',                 // code of the joined focus room, see utils/rooms
 } as const;
 
+// Seconds added or removed by the +/- buttons on a running segment
+export const SEGMENT_ADJUST_STEP = 5 * 60;
+
 export type ThemeName = 'blue' | 'gold' | 'neo' | 'cosmic' | 'glass' | 'chrono';
 
 export const THEMES: Record<ThemeName, { accent: string; text: string; glow?: string }> = {
@@ -0,0 +1,93 @@
+import type { SessionRecord } from './sessions';
+
+// RFC 4180 field: quote when it contains a delimiter, quote or line break. Text that a
+// spreadsheet would read as a formula gets a leading ' (numbers are written as they are).
+export const csvField = (value: string | number | undefined | null): string => {
+  const text = value == null ? '' : String(value);
+  const s = typeof value === 'string' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const csvRow = (values: Array<string | number | undefined | null>): string => values.map(csvField).join(',');
+
+const isoLocal = (ts: number): string => {
+  const d = new Date(ts);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+export const SESSION_CSV_COLUMNS = [
+  'id', 'date', 'profile', 'task', 'mode', 'started_at', 'ended_at',
+  'active_hours', 'break_hours', 'active_seconds', 'break_seconds', 'short_seconds', 'long_seconds',
+  'pomodoros', 'interruptions', 'source',
+] as const;
+
+// One row per session, for timesheets; `taskTitles` maps task ids to their titles
+export function sessionsToCsv(sessions: SessionRecord[], taskTitles: Record<string, string> = {}): string {
+  const rows = sessions.map((s) => csvRow([
+    s.id,
+    s.dateKey,
+    s.profile,
+    s.taskId ? taskTitles[s.taskId] ?? s.taskId : '',
+    s.mode,
+    isoLocal(s.startedAt),
+    isoLocal(s.endedAt),
+    (s.active / 3600).toFixed(2),
+    (s.break / 3600).toFixed(2),
+    s.active,
+    s.break,
+    s.short,
+    s.long,
+    s.pomodoros,
+    s.interruptions?.length ?? 0,
+    s.source ?? (s.editedAt ? 'edited' : 'timer'),
+  ]));
+  return [csvRow([...SESSION_CSV_COLUMNS]), ...rows].join('\r\n') + '\r\n';
+}
+
+// RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and line breaks.
+// Returns rows of fields with the physical line each row starts on (1-based).
+export function parseCsv(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endRow = () => {
+    fields.push(field);
+    // Skip blank lines
+    if (fields.length > 1 || fields[0] !== '') rows.push({ line: rowLine, fields });
+    fields = [];
+    field = '';
+  };
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || fields.length) endRow();
+  return rows;
+}
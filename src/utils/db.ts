@@ -0,0 +1,80 @@
+// IndexedDB database for the session history and diary days, which outgrew localStorage,
+// for the queue of pending cloud writes and for the sync encryption keys
+const DB_NAME = 'tempo';
+const DB_VERSION = 4;
+
+export const SESSION_STORE = 'sessions';
+export const DIARY_STORE = 'diary';
+export const OUTBOX_STORE = 'outbox'; // cloud writes waiting to be sent (version 2)
+export const SYNCED_STORE = 'synced'; // synced settings, profiles and days as of the last sync (version 3)
+export const KEY_STORE = 'keys';      // unlocked encryption keys for synced data (version 4)
+
+// Session indexes; compound keys end with endedAt so cursors come out in time order
+export const BY_DATE = 'dateKey_endedAt';
+export const BY_PROFILE_DATE = 'profile_dateKey_endedAt';
+export const BY_ENDED = 'endedAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          sessions.createIndex(BY_DATE, ['dateKey', 'endedAt']);
+          sessions.createIndex(BY_PROFILE_DATE, ['profile', 'dateKey', 'endedAt']);
+          sessions.createIndex(BY_ENDED, 'endedAt');
+        }
+        // Diary days are keyed by their YYYY-MM-DD day key
+        if (!db.objectStoreNames.contains(DIARY_STORE)) db.createObjectStore(DIARY_STORE);
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' });
+        // One record per backend and user, keyed like the sync cursors
+        if (!db.objectStoreNames.contains(SYNCED_STORE)) db.createObjectStore(SYNCED_STORE);
+        if (!db.objectStoreNames.contains(KEY_STORE)) db.createObjectStore(KEY_STORE);
+      };
+      req.onsuccess = () => {
+        // Step aside when a newer version of the app opens the database in another tab
+        req.result.onversionchange = () => {
+          req.result.close();
+          dbPromise = null;
+        };
+        resolve(req.result);
+      };
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+    });
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+export const requestResult = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+// Run `fn` in one transaction and resolve once it committed
+export async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => T | Promise<T>,
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const done = transactionDone(tx);
+  const result = await fn(tx.objectStore(name));
+  await done;
+  return result;
+}
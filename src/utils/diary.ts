@@ -0,0 +1,89 @@
+import { DIARY_STORE, requestResult, withStore } from './db';
+
+export type ProfileTotals = { active: number; brk: number; poms: number };
+
+// One diary day. The _base* fields are the live counters at the last
+// snapshot, so the next snapshot only adds what happened since.
+export type DiaryEntry = {
+  active: number;
+  brk: number;
+  short: number;
+  long: number;
+  poms: number;
+  elapsed: number;
+  ts?: number;
+  byProfile: Record<string, ProfileTotals>;
+  _baseActive?: number;
+  _baseBreak?: number;
+  _baseShort?: number;
+  _baseLong?: number;
+  _basePoms?: number;
+};
+
+export type DiaryStore = Record<string, DiaryEntry>;
+
+export const emptyDiaryEntry = (): DiaryEntry => ({ active: 0, brk: 0, short: 0, long: 0, poms: 0, elapsed: 0, byProfile: {} });
+
+const count = (n: unknown): number => (typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : 0);
+
+// Older days lack short/long/poms/byProfile, and byProfile entries lack poms
+export function normalizeDiaryEntry(value: unknown): DiaryEntry | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.active !== 'number') return null;
+  const byProfile: Record<string, ProfileTotals> = {};
+  if (v.byProfile && typeof v.byProfile === 'object') {
+    Object.entries(v.byProfile as Record<string, unknown>).forEach(([name, p]) => {
+      if (!p || typeof p !== 'object') return;
+      const t = p as Record<string, unknown>;
+      byProfile[name] = { active: count(t.active), brk: count(t.brk), poms: count(t.poms) };
+    });
+  }
+  const entry: DiaryEntry = {
+    active: count(v.active),
+    brk: count(v.brk),
+    short: count(v.short),
+    long: count(v.long),
+    poms: count(v.poms),
+    elapsed: count(v.elapsed),
+    byProfile,
+  };
+  if (typeof v.ts === 'number') entry.ts = v.ts;
+  (['_baseActive', '_baseBreak', '_baseShort', '_baseLong', '_basePoms'] as const).forEach((k) => {
+    if (typeof v[k] === 'number') entry[k] = v[k] as number;
+  });
+  return entry;
+}
+
+// Diary days live in IndexedDB (see db.ts), keyed by day
+export const loadDiary = (): Promise<DiaryStore> =>
+  withStore(DIARY_STORE, 'readonly', async (store) => {
+    const [keys, values] = await Promise.all([
+      requestResult(store.getAllKeys()),
+      requestResult(store.getAll() as IDBRequest<DiaryEntry[]>),
+    ]);
+    return Object.fromEntries(keys.map((k, i) => [String(k), values[i]]));
+  });
+
+export const loadDiaryDay = (day: string): Promise<DiaryEntry | null> =>
+  withStore(DIARY_STORE, 'readonly', async (store) =>
+    (await requestResult(store.get(day) as IDBRequest<DiaryEntry | undefined>)) ?? null);
+
+// Read-modify-write one day in a single transaction, so snapshots never lose each other's deltas
+export const updateDiaryDay = (day: string, update: (prev: DiaryEntry) => DiaryEntry): Promise<void> =>
+  withStore(DIARY_STORE, 'readwrite', async (store) => {
+    const prev = normalizeDiaryEntry(await requestResult(store.get(day))) ?? emptyDiaryEntry();
+    store.put(update(prev), day);
+  });
+
+// Overwrite the given days; `replace` drops every other day first
+export const saveDiaryDays = (days: DiaryStore, replace = false): Promise<void> =>
+  withStore(DIARY_STORE, 'readwrite', (store) => {
+    if (replace) store.clear();
+    Object.entries(days).forEach(([day, entry]) => store.put(entry, day));
+  });
+
+export const deleteDiaryDays = (days: string[]): Promise<void> =>
+  withStore(DIARY_STORE, 'readwrite', (store) => {
+    days.forEach((day) => store.delete(day));
+  });
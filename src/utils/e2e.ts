@@ -0,0 +1,121 @@
+import { KEY_STORE, requestResult, withStore } from './db';
+import { newSessionId } from './sessions';
+
+// Client-side encryption of synced data. A random data key encrypts (AES-GCM) and blinds
+// names (HMAC-SHA-256); the account's vault holds it wrapped with a key derived from the
+// user's passphrase (PBKDF2), so changing the passphrase only re-wraps the data key.
+// Forgetting the passphrase makes the synced copies unreadable.
+export type Vault = {
+  keyId: string;      // names the data key; set when encryption is turned on
+  salt: string;       // base64url
+  iterations: number;
+  wrapped: string;    // the data key, sealed with the passphrase key
+  changedAt: number;  // epoch ms of the last passphrase change; guards concurrent changes
+};
+
+export type E2eKeys = { keyId: string; data: CryptoKey; names: CryptoKey };
+
+const SEALED_PREFIX = 'e2e1.';
+const PBKDF2_ITERATIONS = 600_000;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, (b) => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+const random = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const encrypt = async (key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<string> => {
+  const iv = random(12);
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes));
+  return `${SEALED_PREFIX}${toBase64(iv)}.${toBase64(data)}`;
+};
+
+// Rejects when the text was sealed with another key or altered
+const decrypt = async (key: CryptoKey, sealed: string): Promise<Uint8Array> => {
+  const [iv, data] = sealed.slice(SEALED_PREFIX.length).split('.');
+  if (!sealed.startsWith(SEALED_PREFIX) || !iv || !data) throw new Error('Not an encrypted value');
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data)));
+};
+
+const passphraseKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// 64 raw bytes: the AES key, then the HMAC key. Imported keys cannot be exported again.
+const importKeys = async (keyId: string, raw: Uint8Array): Promise<E2eKeys> => ({
+  keyId,
+  data: await crypto.subtle.importKey('raw', raw.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+  names: await crypto.subtle.importKey('raw', raw.slice(32, 64), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+});
+
+const wrap = async (raw: Uint8Array<ArrayBuffer>, passphrase: string, keyId: string): Promise<Vault> => {
+  const salt = toBase64(random(16));
+  const wrapped = await encrypt(await passphraseKey(passphrase, salt, PBKDF2_ITERATIONS), raw);
+  return { keyId, salt, iterations: PBKDF2_ITERATIONS, wrapped, changedAt: Date.now() };
+};
+
+// The data key, or null for a wrong passphrase
+const unwrap = async (vault: Vault, passphrase: string): Promise<Uint8Array | null> => {
+  try {
+    return await decrypt(await passphraseKey(passphrase, vault.salt, vault.iterations), vault.wrapped);
+  } catch {
+    return null;
+  }
+};
+
+export async function createVault(passphrase: string): Promise<{ vault: Vault; keys: E2eKeys }> {
+  const raw = random(64);
+  const keyId = newSessionId();
+  return { vault: await wrap(raw, passphrase, keyId), keys: await importKeys(keyId, raw) };
+}
+
+export async function openVault(vault: Vault, passphrase: string): Promise<E2eKeys | null> {
+  const raw = await unwrap(vault, passphrase);
+  return raw ? importKeys(vault.keyId, raw) : null;
+}
+
+// Same data key under a new passphrase; null when `current` is wrong
+export async function rewrapVault(vault: Vault, current: string, next: string): Promise<Vault | null> {
+  const raw = await unwrap(vault, current);
+  return raw ? wrap(new Uint8Array(raw), next, vault.keyId) : null;
+}
+
+export const isSealed = (value: unknown): value is string => typeof value === 'string' && value.startsWith(SEALED_PREFIX);
+
+export const seal = (keys: E2eKeys, value: unknown): Promise<string> => encrypt(keys.data, encoder.encode(JSON.stringify(value ?? null)));
+
+export const unseal = async (keys: E2eKeys, sealed: string): Promise<unknown> => JSON.parse(decoder.decode(await decrypt(keys.data, sealed)));
+
+// Same name, same result, so blinded document keys and fields still merge on the server
+export const blindName = async (keys: E2eKeys, name: string): Promise<string> =>
+  toBase64(new Uint8Array(await crypto.subtle.sign('HMAC', keys.names, encoder.encode(name))).slice(0, 18));
+
+export const normalizeVault = (value: unknown): Vault | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.keyId !== 'string' || typeof v.salt !== 'string' || typeof v.wrapped !== 'string') return null;
+  if (typeof v.iterations !== 'number' || typeof v.changedAt !== 'number') return null;
+  return { keyId: v.keyId, salt: v.salt, iterations: v.iterations, wrapped: v.wrapped, changedAt: v.changedAt };
+};
+
+// Unlocked keys stay on this device (IndexedDB keeps them non-extractable), per backend and user
+export const loadKeys = (scope: string): Promise<E2eKeys | null> =>
+  withStore(KEY_STORE, 'readonly', async (store) =>
+    (await requestResult(store.get(scope) as IDBRequest<E2eKeys | undefined>)) ?? null);
+
+export const saveKeys = (scope: string, keys: E2eKeys | null): Promise<void> =>
+  withStore(KEY_STORE, 'readwrite', (store) => {
+    if (keys) store.put(keys, scope);
+    else store.delete(scope);
+  });
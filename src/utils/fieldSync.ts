@@ -0,0 +1,54 @@
+// Per-field last-writer-wins merge for synced objects (settings, profiles, prefs, diary days).
+// Each field carries the time it was last changed; null marks a removed field, and a
+// document whose fields are all null has been deleted.
+export type StampedField = { value: unknown; at: number };
+export type SyncDoc = { key: string; fields: Record<string, StampedField> };
+export type FieldValues = Record<string, unknown>;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Later change wins; equal times fall back to comparing the values so every device picks the same
+const newer = (a: StampedField | undefined, b: StampedField | undefined): StampedField | undefined => {
+  if (!a || !b) return a ?? b;
+  if (a.at !== b.at) return a.at > b.at ? a : b;
+  return (JSON.stringify(a.value) ?? '') >= (JSON.stringify(b.value) ?? '') ? a : b;
+};
+
+export function mergeDocs(a: SyncDoc | undefined, b: SyncDoc | undefined): SyncDoc {
+  const key = a?.key ?? b?.key ?? '';
+  const fields: Record<string, StampedField> = {};
+  new Set([...Object.keys(a?.fields ?? {}), ...Object.keys(b?.fields ?? {})]).forEach((f) => {
+    const winner = newer(a?.fields[f], b?.fields[f]);
+    if (winner) fields[f] = winner;
+  });
+  return { key, fields };
+}
+
+// Stamp the current values against the copy from the last sync: unchanged fields keep
+// their time, changed, added and removed ones get `now`
+export function stampChanges(current: Record<string, FieldValues>, synced: Record<string, SyncDoc>, now: number): Record<string, SyncDoc> {
+  const docs: Record<string, SyncDoc> = {};
+  new Set([...Object.keys(current), ...Object.keys(synced)]).forEach((key) => {
+    const values = current[key] ?? {};
+    const before = synced[key]?.fields ?? {};
+    const fields: Record<string, StampedField> = {};
+    new Set([...Object.keys(values), ...Object.keys(before)]).forEach((f) => {
+      const value = values[f] ?? null;
+      fields[f] = before[f] && same(before[f].value, value) ? before[f] : { value, at: now };
+    });
+    docs[key] = { key, fields };
+  });
+  return docs;
+}
+
+// Fields of `doc` this device changed since the last sync
+export const hasLocalChanges = (doc: SyncDoc, synced: SyncDoc | undefined): boolean =>
+  Object.entries(doc.fields).some(([f, field]) => !synced?.fields[f] || field.at > synced.fields[f].at);
+
+export const docValues = (doc: SyncDoc): FieldValues | null => {
+  const values: FieldValues = {};
+  Object.entries(doc.fields).forEach(([f, field]) => {
+    if (field.value !== null) values[f] = field.value;
+  });
+  return Object.keys(values).length > 0 ? values : null;
+};
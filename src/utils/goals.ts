@@ -0,0 +1,103 @@
+import { STORAGE } from './constants';
+import { readJson, writeJson } from './storage';
+import { getTodayKeyLocal } from './dates';
+import { lastDayKeys, type DayTotals } from './stats';
+import type { SessionRecord } from './sessions';
+
+export type GoalMetric = 'activeHours' | 'pomodoros';
+
+// Targets of 0 mean "no goal"; `profile` null counts every profile
+export type FocusGoals = {
+  metric: GoalMetric;
+  daily: number;
+  weekly: number;
+  profile: string | null;
+};
+
+export const DEFAULT_GOALS: FocusGoals = { metric: 'activeHours', daily: 0, weekly: 0, profile: null };
+
+// Longest history walked when computing streaks
+const MAX_STREAK_DAYS = 3650;
+
+export function readGoals(): FocusGoals {
+  const g = readJson<Partial<FocusGoals> | null>(STORAGE.GOALS, null);
+  if (!g || typeof g !== 'object') return DEFAULT_GOALS;
+  return {
+    metric: g.metric === 'pomodoros' ? 'pomodoros' : 'activeHours',
+    daily: typeof g.daily === 'number' && g.daily > 0 ? g.daily : 0,
+    weekly: typeof g.weekly === 'number' && g.weekly > 0 ? g.weekly : 0,
+    profile: typeof g.profile === 'string' && g.profile ? g.profile : null,
+  };
+}
+
+export const writeGoals = (goals: FocusGoals) => writeJson(STORAGE.GOALS, goals);
+
+export const hasGoals = (goals: FocusGoals) => goals.daily > 0 || goals.weekly > 0;
+
+// Sessions that count towards the goals
+export const goalSessions = (sessions: SessionRecord[], goals: FocusGoals) =>
+  goals.profile ? sessions.filter((s) => s.profile === goals.profile) : sessions;
+
+// Progress value in the goal's unit (hours or pomodoros)
+export const goalValue = (t: DayTotals | undefined, metric: GoalMetric): number =>
+  !t ? 0 : metric === 'pomodoros' ? t.poms : t.active / 3600;
+
+export const dayMetGoal = (t: DayTotals | undefined, goals: FocusGoals): boolean =>
+  goals.daily > 0 && goalValue(t, goals.metric) >= goals.daily;
+
+// Day keys from Monday of the current week up to today
+export function weekDayKeys(today: Date = new Date()): string[] {
+  const sinceMonday = (today.getDay() + 6) % 7;
+  return lastDayKeys(sinceMonday + 1, today);
+}
+
+// First day goal progress reads: the streak window when there is a daily goal, else this week
+export function goalHistoryStart(goals: FocusGoals, today: Date = new Date()): string {
+  if (goals.daily <= 0) return weekDayKeys(today)[0];
+  return getTodayKeyLocal(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (MAX_STREAK_DAYS - 1)));
+}
+
+export function weekValue(byDay: Record<string, DayTotals>, goals: FocusGoals, today: Date = new Date()): number {
+  return weekDayKeys(today).reduce((acc, k) => acc + goalValue(byDay[k], goals.metric), 0);
+}
+
+// Consecutive days meeting the daily goal. Today only extends the current streak
+// once met; until then the streak ending yesterday is still current.
+export function goalStreaks(byDay: Record<string, DayTotals>, goals: FocusGoals, today: Date = new Date()): { current: number; longest: number } {
+  if (goals.daily <= 0) return { current: 0, longest: 0 };
+  const first = Object.keys(byDay).sort()[0];
+  if (!first) return { current: 0, longest: 0 };
+  const span = Math.floor((today.getTime() - new Date(first + 'T00:00:00').getTime()) / 86400000) + 1;
+  const keys = lastDayKeys(Math.min(MAX_STREAK_DAYS, Math.max(1, span)), today);
+
+  let longest = 0;
+  let run = 0;
+  keys.forEach((k) => {
+    run = dayMetGoal(byDay[k], goals) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+
+  let current = 0;
+  const todayKey = getTodayKeyLocal(today);
+  for (let i = keys.length - 1; i >= 0; i--) {
+    if (dayMetGoal(byDay[keys[i]], goals)) current += 1;
+    else if (keys[i] !== todayKey) break;
+  }
+  return { current, longest };
+}
+
+export type GoalProgress = {
+  metric: GoalMetric;
+  daily: { value: number; target: number } | null;
+  weekly: { value: number; target: number } | null;
+  streak: { current: number; longest: number };
+};
+
+export function goalProgress(byDay: Record<string, DayTotals>, goals: FocusGoals, today: Date = new Date()): GoalProgress {
+  return {
+    metric: goals.metric,
+    daily: goals.daily > 0 ? { value: goalValue(byDay[getTodayKeyLocal(today)], goals.metric), target: goals.daily } : null,
+    weekly: goals.weekly > 0 ? { value: weekValue(byDay, goals, today), target: goals.weekly } : null,
+    streak: goalStreaks(byDay, goals, today),
+  };
+}
@@ -0,0 +1,99 @@
+import type { SessionRecord } from './sessions';
+
+// RFC 5545 TEXT value: escape backslash, semicolon, comma and line breaks
+export const icsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded with CRLF + space
+export const foldLine = (line: string): string => {
+  const bytes = new TextEncoder();
+  if (bytes.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const n = bytes.encode(ch).length;
+    // Continuation lines start with a space, which counts towards the limit
+    if (size + n > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// UTC date-time, e.g. 20240102T083000Z
+export const icsDate = (ts: number): string => new Date(ts).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const hm = (sec: number) => `${Math.floor(sec / 3600)}h ${Math.floor((sec % 3600) / 60)}m`;
+
+type IcsEvent = { uid: string; start: number; end: number; summary: string; description: string };
+
+export type IcsOptions = {
+  perPomodoro?: boolean; // one event per logged pomodoro instead of per session
+  taskTitles?: Record<string, string>;
+  now?: number;
+};
+
+const sessionEvents = (s: SessionRecord, opts: IcsOptions): IcsEvent[] => {
+  const task = s.taskId ? opts.taskTitles?.[s.taskId] ?? s.taskId : '';
+  const summary = task ? `${s.profile}: ${task}` : s.profile;
+  const pomodoros = (s.segments ?? []).filter((g) => g.type === 'pomodoro');
+  // Sessions without a segment log (older or manual ones) stay a single event
+  if (opts.perPomodoro && pomodoros.length > 0) {
+    return pomodoros.map((g, i) => ({
+      uid: `${s.id}-${g.startedAt}@tempo`,
+      start: g.startedAt,
+      end: Math.max(g.endedAt, g.startedAt + 1000),
+      summary: `${summary} · Pomodoro ${i + 1}`,
+      description: [
+        `Focus: ${hm(g.seconds)}${g.voided ? ' (voided)' : ''}`,
+        g.rating ? `Rating: ${g.rating}/5` : '',
+        g.note ?? '',
+      ].filter(Boolean).join('\n'),
+    }));
+  }
+  return [{
+    uid: `${s.id}@tempo`,
+    start: s.startedAt,
+    end: Math.max(s.endedAt, s.startedAt + 1000),
+    summary,
+    description: [
+      `Pomodoros: ${s.pomodoros}`,
+      `Active: ${hm(s.active)}`,
+      `Breaks: ${hm(s.break)} (short ${hm(s.short)}, long ${hm(s.long)})`,
+      s.interruptions?.length ? `Interruptions: ${s.interruptions.length}` : '',
+    ].filter(Boolean).join('\n'),
+  }];
+};
+
+// VCALENDAR with one VEVENT per session (or per pomodoro), CRLF line endings
+export function sessionsToIcs(sessions: SessionRecord[], opts: IcsOptions = {}): string {
+  const stamp = icsDate(opts.now ?? Date.now());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Tempo//Focus Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  sessions.flatMap((s) => sessionEvents(s, opts)).forEach((e) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${icsText(e.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(e.start)}`,
+      `DTEND:${icsDate(e.end)}`,
+      `SUMMARY:${icsText(e.summary)}`,
+      `DESCRIPTION:${icsText(e.description)}`,
+      'TRANSP:OPAQUE',
+      'END:VEVENT',
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,51 @@
+import { STORAGE } from './constants';
+import type { SessionState } from './sessionEngine';
+import { newSessionId } from './sessions';
+import { readString, writeString } from './storage';
+import type { TabCommand } from './tabs';
+
+// Coordination between signed-in devices, one level above the tabs (utils/tabs): the
+// device that started the timer owns it and publishes its state through the sync
+// backend; the others mirror it and send their control actions to the owner. Countdowns
+// use absolute times, so this relies on device clocks being roughly in sync.
+export type LiveTimer = {
+  deviceId: string; // owner
+  profile: string;
+  state: SessionState;
+  updatedAt: number; // epoch ms; republished every HEARTBEAT_MS while the timer runs or is paused
+};
+
+export type LiveCommand = {
+  id: string;
+  to: string; // device id of the owner
+  command: TabCommand;
+  sentAt: number; // epoch ms
+};
+
+// One record per user; a backend update replaces only the fields it carries
+export type LiveDoc = { timer: LiveTimer | null; command: LiveCommand | null };
+
+export const HEARTBEAT_MS = 30_000;
+const STALE_MS = 2 * 60_000; // an owner silent this long is gone; another device takes over
+const COMMAND_TTL_MS = 30_000; // commands left over from before are not replayed
+
+// Shared by all tabs of this browser
+export function deviceId(): string {
+  let id = readString(STORAGE.DEVICE_ID);
+  if (!id) {
+    id = newSessionId();
+    writeString(STORAGE.DEVICE_ID, id);
+  }
+  return id;
+}
+
+// A timer another device is running or has paused, and still reports on
+export const isLiveActive = (timer: LiveTimer | null, now: number): boolean =>
+  !!timer && (timer.state.status === 'running' || timer.state.status === 'paused') && now - timer.updatedAt < STALE_MS;
+
+export const isCommandFresh = (command: LiveCommand, now: number): boolean => Math.abs(now - command.sentAt) < COMMAND_TTL_MS;
+
+// What other devices need to hear about right away; the counters catch up with the heartbeat
+export const liveSignature = (s: SessionState): string =>
+  [s.status, s.segment, s.stepIndex, s.segmentId, s.plannedEndAt, s.remainingMs, s.pomodorosCompleted,
+    s.segments.length, s.adjustments.length, s.interruptions.length].join('|');
@@ -0,0 +1,95 @@
+import { STORAGE } from './constants';
+import { normalizeDiaryEntry, saveDiaryDays, type DiaryStore } from './diary';
+import { loadSessions, normalizeSession, replaceSessions, saveSessions, type SessionRecord } from './sessions';
+import { readJson, readProfiles, readSettings, readString, writeJson, writeProfiles, writeString } from './storage';
+
+// Layout version of the data under STORAGE. Bump it and append a migration whenever
+// a stored shape changes; readers may then assume the current shape.
+export const SCHEMA_VERSION = 3;
+
+type Migration = {
+  version: number; // schema version after `up` ran
+  description: string;
+  up: () => void | Promise<void>;
+};
+
+// Sessions and diary days as kept in localStorage before the move to IndexedDB
+const legacySessions = (): SessionRecord[] => {
+  const raw = readJson<unknown>(STORAGE.SESSIONS, []);
+  return (Array.isArray(raw) ? raw : [])
+    .map(normalizeSession)
+    .filter((s): s is SessionRecord => s !== null);
+};
+
+const legacyDiary = (): DiaryStore => {
+  const raw = readJson<Record<string, unknown>>(STORAGE.DIARY, {});
+  const store: DiaryStore = {};
+  Object.entries(raw && typeof raw === 'object' ? raw : {}).forEach(([day, v]) => {
+    const entry = normalizeDiaryEntry(v);
+    if (entry) store[day] = entry;
+  });
+  return store;
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalize legacy sessions, diary days, profiles and settings',
+    up: () => {
+      writeJson(STORAGE.SESSIONS, legacySessions());
+      writeJson(STORAGE.DIARY, legacyDiary());
+      // The typed readers drop malformed entries and fill in missing fields
+      writeProfiles(readProfiles());
+      const settings = readSettings();
+      if (settings) writeJson(STORAGE.SETTINGS, settings);
+    },
+  },
+  {
+    version: 2,
+    description: 'Move sessions and diary days to IndexedDB',
+    up: async () => {
+      await saveSessions(legacySessions());
+      await saveDiaryDays(legacyDiary());
+      // Only drop the localStorage copies once IndexedDB committed them
+      writeJson(STORAGE.SESSIONS, null);
+      writeJson(STORAGE.DIARY, null);
+    },
+  },
+  {
+    version: 3,
+    description: 'Give sessions UUIDs and a last-modified time',
+    up: async () => {
+      // Timestamp ids become the legacy id derived from the end time, which is also what
+      // Firestore docs from before this version map to
+      const sessions = (await loadSessions())
+        .map(normalizeSession)
+        .filter((s): s is SessionRecord => s !== null);
+      await replaceSessions(sessions);
+    },
+  },
+];
+
+export const storedSchemaVersion = (): number => {
+  const v = Number(readString(STORAGE.SCHEMA_VERSION) ?? 0);
+  return Number.isInteger(v) && v >= 0 ? v : 0;
+};
+
+// Run pending migrations in order, once at startup before anything reads storage.
+// Data written by a newer version is left alone; a failing migration stops the run
+// so it is retried on the next start.
+export async function runMigrations(): Promise<{ from: number; to: number }> {
+  const from = storedSchemaVersion();
+  let to = from;
+  for (const m of MIGRATIONS) {
+    if (m.version <= to) continue;
+    try {
+      await m.up();
+    } catch (e) {
+      console.warn(`Storage migration ${m.version} failed: ${m.description}`, e);
+      break;
+    }
+    to = m.version;
+    writeString(STORAGE.SCHEMA_VERSION, String(to));
+  }
+  return { from, to };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ATTEMPTS, backoffMs, createOutbox, memoryOutboxStore, type OutboxOp } from './outbox';
+import type { SessionRecord } from './sessions';
+
+const T0 = Date.UTC(2024, 0, 8, 9, 0, 0);
+
+const session = (id: string, updatedAt = T0): SessionRecord => ({
+  id,
+  dateKey: '2024-01-08',
+  profile: 'Default',
+  active: 1500,
+  break: 0,
+  short: 0,
+  long: 0,
+  pomodoros: 1,
+  startedAt: T0 - 1_500_000,
+  endedAt: T0,
+  mode: 'workday',
+  updatedAt,
+});
+
+// An outbox on an in-memory store with a fake clock and a send that fails on request
+const setup = () => {
+  let now = T0;
+  let online = true;
+  let failing = false;
+  const sent: OutboxOp[] = [];
+  const store = memoryOutboxStore();
+  const outbox = createOutbox({
+    store,
+    now: () => now,
+    isOnline: () => online,
+    send: async (op) => {
+      if (failing) throw new Error('Unavailable');
+      sent.push(op);
+    },
+  });
+  return {
+    store,
+    outbox,
+    sent,
+    advance: (ms: number) => { now += ms; },
+    setOnline: (value: boolean) => { online = value; },
+    setFailing: (value: boolean) => { failing = value; },
+  };
+};
+
+describe('backoffMs', () => {
+  it('doubles from 5 seconds with ±25% jitter and caps at 30 minutes', () => {
+    expect(backoffMs(1, () => 0.5)).toBe(5_000);
+    expect(backoffMs(2, () => 0.5)).toBe(10_000);
+    expect(backoffMs(3, () => 0)).toBe(15_000);
+    expect(backoffMs(3, () => 1)).toBe(25_000);
+    expect(backoffMs(20, () => 0.5)).toBe(30 * 60_000);
+  });
+});
+
+describe('createOutbox', () => {
+  it('sends queued writes on flush and removes them once sent', async () => {
+    const { outbox, sent, store } = setup();
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    await outbox.enqueue({ kind: 'delete', userId: 'u1', sessionId: 'b' });
+    expect(await outbox.counts('u1')).toEqual({ pending: 2, failed: 0 });
+
+    await outbox.flush('u1');
+    expect(sent.map((op) => op.kind)).toEqual(['save', 'delete']);
+    expect(await store.all()).toEqual([]);
+    expect(await outbox.counts('u1')).toEqual({ pending: 0, failed: 0 });
+  });
+
+  it('only sends the entries of the given user', async () => {
+    const { outbox, sent } = setup();
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    await outbox.enqueue({ kind: 'save', userId: 'u2', session: session('a') });
+    await outbox.flush('u1');
+    expect(sent).toHaveLength(1);
+    expect(await outbox.counts('u2')).toEqual({ pending: 1, failed: 0 });
+  });
+
+  it('keeps one entry per session, the newest op', async () => {
+    const { outbox, sent } = setup();
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    await outbox.enqueue({ kind: 'delete', userId: 'u1', sessionId: 'a' });
+    expect(await outbox.counts('u1')).toEqual({ pending: 1, failed: 0 });
+    await outbox.flush('u1');
+    expect(sent).toEqual([expect.objectContaining({ kind: 'delete', sessionId: 'a' })]);
+  });
+
+  it('sends nothing while offline', async () => {
+    const { outbox, sent, setOnline } = setup();
+    setOnline(false);
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    await outbox.flush('u1');
+    expect(sent).toEqual([]);
+    expect(await outbox.counts('u1')).toEqual({ pending: 1, failed: 0 });
+  });
+
+  it('retries a failed write only once its backoff has passed', async () => {
+    const { outbox, sent, store, advance, setFailing } = setup();
+    setFailing(true);
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    await outbox.flush('u1');
+    const [entry] = await store.all();
+    expect(entry.attempts).toBe(1);
+    expect(entry.error).toBe('Unavailable');
+    expect(entry.nextAttemptAt).toBeGreaterThanOrEqual(T0 + 3_750);
+    expect(entry.nextAttemptAt).toBeLessThanOrEqual(T0 + 6_250);
+
+    setFailing(false);
+    await outbox.flush('u1');
+    expect(sent).toEqual([]);
+
+    advance(entry.nextAttemptAt - T0);
+    await outbox.flush('u1');
+    expect(sent).toHaveLength(1);
+    expect(await store.all()).toEqual([]);
+  });
+
+  it('gives up after MAX_ATTEMPTS until a retry is asked for', async () => {
+    const { outbox, sent, advance, setFailing } = setup();
+    setFailing(true);
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    for (let i = 0; i < MAX_ATTEMPTS; i++) {
+      await outbox.flush('u1');
+      advance(60 * 60_000);
+    }
+    expect(await outbox.counts('u1')).toEqual({ pending: 0, failed: 1 });
+
+    setFailing(false);
+    await outbox.flush('u1');
+    expect(sent).toEqual([]);
+    await outbox.flush('u1', { retryFailed: true });
+    expect(sent).toHaveLength(1);
+    expect(await outbox.counts('u1')).toEqual({ pending: 0, failed: 0 });
+  });
+
+  it('keeps an op queued while an older one for the same session was being sent', async () => {
+    const store = memoryOutboxStore();
+    let now = T0;
+    const sent: OutboxOp[] = [];
+    const outbox = createOutbox({
+      store,
+      now: () => now,
+      isOnline: () => true,
+      send: async (op) => {
+        sent.push(op);
+        // Edited again while the first save is in flight
+        if (sent.length === 1) {
+          now += 1000;
+          await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a', T0 + 1000) });
+        }
+      },
+    });
+    await outbox.enqueue({ kind: 'save', userId: 'u1', session: session('a') });
+    await outbox.flush('u1');
+    expect(await outbox.counts('u1')).toEqual({ pending: 1, failed: 0 });
+    await outbox.flush('u1');
+    expect(sent.map((op) => (op.kind === 'save' ? op.session.updatedAt : 0))).toEqual([T0, T0 + 1000]);
+  });
+});
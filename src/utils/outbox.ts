@@ -0,0 +1,169 @@
+import { OUTBOX_STORE, requestResult, withStore } from './db';
+import type { SessionRecord } from './sessions';
+
+// Cloud writes are queued here first and sent when possible, so sessions finished
+// offline reach the cloud later, even after a reload
+export type OutboxOp =
+  | { kind: 'save'; userId: string; session: SessionRecord }
+  | { kind: 'delete'; userId: string; sessionId: string };
+
+export type OutboxEntry = OutboxOp & {
+  key: string; // one entry per user and session; a newer op replaces an older one
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  failed?: boolean; // gave up after MAX_ATTEMPTS; retried only on request
+  error?: string;
+};
+
+export type OutboxCounts = { pending: number; failed: number };
+
+export type OutboxStore = {
+  all: () => Promise<OutboxEntry[]>;
+  get: (key: string) => Promise<OutboxEntry | undefined>;
+  put: (entry: OutboxEntry) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+};
+
+export const idbOutboxStore: OutboxStore = {
+  all: () => withStore(OUTBOX_STORE, 'readonly', (store) => requestResult(store.getAll() as IDBRequest<OutboxEntry[]>)),
+  get: (key) => withStore(OUTBOX_STORE, 'readonly', (store) => requestResult(store.get(key) as IDBRequest<OutboxEntry | undefined>)),
+  put: (entry) => withStore(OUTBOX_STORE, 'readwrite', (store) => { store.put(entry); }),
+  remove: (key) => withStore(OUTBOX_STORE, 'readwrite', (store) => { store.delete(key); }),
+};
+
+// In-memory stand-in, e.g. to exercise the queue without IndexedDB
+export function memoryOutboxStore(): OutboxStore {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    all: async () => Array.from(entries.values()),
+    get: async (key) => entries.get(key),
+    put: async (entry) => { entries.set(entry.key, entry); },
+    remove: async (key) => { entries.delete(key); },
+  };
+}
+
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 30 * 60_000;
+const SEND_TIMEOUT_MS = 30_000;
+const POLL_MS = 60_000; // picks up entries queued by other tabs
+
+// Exponential backoff with jitter: ~5s, 10s, 20s, … capped at 30 minutes
+export const backoffMs = (attempts: number, random = Math.random): number =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)) * (0.75 + random() * 0.5);
+
+const opId = (op: OutboxOp) => (op.kind === 'save' ? op.session.id : op.sessionId);
+
+const withTimeout = <T>(p: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error('Timed out')), ms);
+    p.then(resolve, reject).finally(() => clearTimeout(t));
+  });
+
+export type OutboxOptions = {
+  store: OutboxStore;
+  send: (op: OutboxOp) => Promise<void>;
+  now?: () => number;
+  isOnline?: () => boolean;
+  onChange?: (counts: OutboxCounts) => void;
+};
+
+export type Outbox = {
+  enqueue: (op: OutboxOp) => Promise<void>;
+  // Send the entries of `userId` that are due; `retryFailed` also retries given-up and waiting ones
+  flush: (userId: string, opts?: { retryFailed?: boolean }) => Promise<void>;
+  counts: (userId: string | null) => Promise<OutboxCounts>;
+  // Keep flushing for `userId`: now, when back online and when retries fall due; returns a stop function
+  start: (userId: string) => () => void;
+};
+
+export function createOutbox({ store, send, now = Date.now, isOnline = () => navigator.onLine, onChange }: OutboxOptions): Outbox {
+  let flushing: Promise<void> | null = null;
+  let active: string | null = null; // user whose queue is being kept flushed
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const counts = async (userId: string | null): Promise<OutboxCounts> => {
+    const entries = userId ? (await store.all()).filter((e) => e.userId === userId) : [];
+    const failed = entries.filter((e) => e.failed).length;
+    return { pending: entries.length - failed, failed };
+  };
+
+  const notify = async (userId: string) => {
+    if (onChange) onChange(await counts(userId));
+  };
+
+  // Wake up for the earliest retry, or poll for entries queued elsewhere
+  const schedule = async () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    const userId = active;
+    if (!userId) return;
+    const waiting = (await store.all()).filter((e) => e.userId === userId && !e.failed);
+    const next = Math.min(now() + POLL_MS, ...waiting.map((e) => e.nextAttemptAt));
+    if (active !== userId) return;
+    timer = setTimeout(() => { void flush(userId); }, Math.max(0, next - now()));
+  };
+
+  const sendDue = async (userId: string, retryFailed: boolean) => {
+    const entries = (await store.all())
+      .filter((e) => e.userId === userId)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+    for (const entry of entries) {
+      if (!retryFailed && (entry.failed || entry.nextAttemptAt > now())) continue;
+      if (!isOnline()) break;
+      try {
+        await withTimeout(send(entry), SEND_TIMEOUT_MS);
+        // A newer op for the same session may have been queued meanwhile
+        const current = await store.get(entry.key);
+        if (current && current.queuedAt === entry.queuedAt) await store.remove(entry.key);
+      } catch (e) {
+        const current = await store.get(entry.key);
+        if (!current || current.queuedAt !== entry.queuedAt) continue;
+        const attempts = entry.attempts + 1;
+        await store.put({
+          ...entry,
+          attempts,
+          nextAttemptAt: now() + backoffMs(attempts),
+          failed: attempts >= MAX_ATTEMPTS,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+  };
+
+  const flush = (userId: string, opts: { retryFailed?: boolean } = {}): Promise<void> => {
+    // Wait for a running flush, then go again so nothing queued meanwhile is missed
+    const previous = flushing ?? Promise.resolve();
+    const run: Promise<void> = previous
+      .then(() => sendDue(userId, !!opts.retryFailed))
+      .catch(() => { /* storage unavailable; retried on the next flush */ })
+      .then(() => notify(userId))
+      .then(() => (active === userId ? schedule() : undefined))
+      .finally(() => { if (flushing === run) flushing = null; });
+    flushing = run;
+    return run;
+  };
+
+  const enqueue = async (op: OutboxOp) => {
+    const key = `${op.userId}:${opId(op)}`;
+    await store.put({ ...op, key, queuedAt: now(), attempts: 0, nextAttemptAt: 0 });
+    if (active === op.userId) void flush(op.userId);
+    else await notify(op.userId);
+  };
+
+  const start = (userId: string) => {
+    active = userId;
+    const onOnline = () => { void flush(userId); };
+    window.addEventListener('online', onOnline);
+    void flush(userId);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      if (active === userId) active = null;
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+    };
+  };
+
+  return { enqueue, flush, counts, start };
+}
@@ -0,0 +1,75 @@
+import { normalizeConfig, type SessionConfig, type SessionState } from './sessionEngine';
+
+// Focus rooms: a team follows one segment schedule, started when the room was created
+// (see schedulePosition). Anyone signed in to the same sync backend joins with the code.
+export type RoomMemberStatus = 'focus' | 'break' | 'paused';
+
+export type RoomMember = {
+  name: string;
+  status: RoomMemberStatus;
+  seenAt: number; // epoch ms; refreshed every ROOM_HEARTBEAT_MS
+};
+
+export type Room = {
+  code: string;
+  name: string; // profile the durations came from
+  config: SessionConfig;
+  startedAt: number; // epoch ms
+  createdBy: string; // user id
+  members: Record<string, RoomMember>; // by user id
+};
+
+export const ROOM_HEARTBEAT_MS = 30_000;
+const MEMBER_STALE_MS = 2 * 60_000;
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+export function newRoomCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+export const normalizeRoomCode = (input: string): string => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Rooms run on a fixed schedule, so flowtime (which has none) becomes a workday
+export const roomConfig = (config: SessionConfig): SessionConfig =>
+  config.mode === 'flowtime' ? { ...config, mode: 'workday' } : config;
+
+export const memberStatus = (state: SessionState): RoomMemberStatus =>
+  state.status !== 'running' ? 'paused' : state.segment === 'pomodoro' ? 'focus' : 'break';
+
+// Members still reporting, by name
+export const activeMembers = (room: Room, now: number): Array<RoomMember & { id: string }> =>
+  Object.entries(room.members)
+    .filter(([, m]) => now - m.seenAt < MEMBER_STALE_MS)
+    .map(([id, m]) => ({ id, ...m }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const isMember = (v: unknown): v is RoomMember => {
+  if (!v || typeof v !== 'object') return false;
+  const m = v as Record<string, unknown>;
+  return typeof m.name === 'string' && (m.status === 'focus' || m.status === 'break' || m.status === 'paused') && typeof m.seenAt === 'number';
+};
+
+// Rooms come from other clients through the backend; anything malformed is dropped
+export function normalizeRoom(value: unknown): Room | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.code !== 'string' || typeof v.startedAt !== 'number' || !v.config || typeof v.config !== 'object') return null;
+  const members: Record<string, RoomMember> = {};
+  if (v.members && typeof v.members === 'object') {
+    Object.entries(v.members as Record<string, unknown>).forEach(([id, m]) => {
+      if (isMember(m)) members[id] = { name: m.name, status: m.status, seenAt: m.seenAt };
+    });
+  }
+  return {
+    code: v.code,
+    name: typeof v.name === 'string' ? v.name : 'Room',
+    config: roomConfig(normalizeConfig(v.config)),
+    startedAt: v.startedAt,
+    createdBy: typeof v.createdBy === 'string' ? v.createdBy : '',
+    members,
+  };
+}
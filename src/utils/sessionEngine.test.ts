@@ -0,0 +1,327 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SESSION_CONFIG,
+  createSessionState,
+  schedulePosition,
+  sessionReducer,
+  toRuntime,
+  type SessionConfig,
+  type SessionEvent,
+  type SessionState,
+} from './sessionEngine';
+
+const T0 = Date.UTC(2024, 0, 8, 9, 0, 0);
+const MIN = 60_000;
+
+// 25 minute pomodoros, 5 and 15 minute breaks, a long break every 4th, an 8 hour workday
+const config: SessionConfig = DEFAULT_SESSION_CONFIG;
+
+// Drives the reducer with a fake clock; every event is stamped with the clock's time
+const fakeRun = (cfg: SessionConfig = config, state: SessionState = createSessionState(cfg)) => {
+  let now = T0;
+  let current = state;
+  const send = (event: SessionEvent) => (current = sessionReducer(current, event));
+  return {
+    get state() { return current; },
+    get now() { return now; },
+    advance: (ms: number) => { now += ms; },
+    start: () => send({ type: 'start', now, config: cfg }),
+    pause: () => send({ type: 'pause', now }),
+    resume: () => send({ type: 'resume', now }),
+    tick: () => send({ type: 'tick', now, config: cfg }),
+    segmentEnd: () => send({ type: 'segmentEnd', now, config: cfg }),
+    skip: () => send({ type: 'skip', now, config: cfg }),
+    send,
+  };
+};
+
+// Runs the current (running) segment to its planned end
+const finishSegment = (run: ReturnType<typeof fakeRun>) => {
+  run.advance((run.state.plannedEndAt ?? run.now) - run.now);
+  run.tick();
+  run.segmentEnd();
+};
+
+describe('sessionReducer', () => {
+  it('starts with a pomodoro of the configured length', () => {
+    const run = fakeRun();
+    run.start();
+    expect(run.state.status).toBe('running');
+    expect(run.state.segment).toBe('pomodoro');
+    expect(run.state.segmentStartedAt).toBe(T0);
+    expect(run.state.plannedEndAt).toBe(T0 + 25 * MIN);
+  });
+
+  it('accrues whole seconds on tick and keeps the remainder', () => {
+    const run = fakeRun();
+    run.start();
+    run.advance(2500);
+    run.tick();
+    expect(run.state.counters.active).toBe(2);
+    expect(run.state.lastTickAt).toBe(T0 + 2000);
+    run.advance(600);
+    run.tick();
+    expect(run.state.counters.active).toBe(3);
+    expect(run.state.counters.elapsed).toBe(3);
+  });
+
+  it('does not count time while paused and moves the planned end on resume', () => {
+    const run = fakeRun();
+    run.start();
+    run.advance(10 * MIN);
+    run.pause();
+    expect(run.state.status).toBe('paused');
+    expect(run.state.remainingMs).toBe(15 * MIN);
+    expect(run.state.plannedEndAt).toBeNull();
+
+    run.advance(30 * MIN);
+    run.tick();
+    expect(run.state.counters.active).toBe(600);
+
+    run.resume();
+    expect(run.state.plannedEndAt).toBe(run.now + 15 * MIN);
+    run.advance(MIN);
+    run.tick();
+    expect(run.state.counters.active).toBe(660);
+  });
+
+  it('ignores pause and resume in the wrong state', () => {
+    const run = fakeRun();
+    const idle = run.state;
+    expect(run.pause()).toBe(idle);
+    run.start();
+    const running = run.state;
+    expect(run.resume()).toBe(running);
+  });
+
+  it('counts a pomodoro and moves to a short break at segmentEnd', () => {
+    const run = fakeRun();
+    run.start();
+    finishSegment(run);
+    expect(run.state.pomodorosCompleted).toBe(1);
+    expect(run.state.counters.poms).toBe(1);
+    expect(run.state.counters.active).toBe(25 * 60);
+    expect(run.state.segment).toBe('shortBreak');
+    expect(run.state.plannedEndAt).toBe(run.now + 5 * MIN);
+    expect(run.state.segments).toEqual([{ type: 'pomodoro', startedAt: T0, endedAt: T0 + 25 * MIN, seconds: 25 * 60 }]);
+  });
+
+  it('takes a long break after every longEvery pomodoros', () => {
+    const run = fakeRun({ ...config, longEvery: 3 });
+    run.start();
+    const breaks: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      finishSegment(run);
+      breaks.push(run.state.segment);
+      finishSegment(run);
+    }
+    expect(breaks).toEqual(['shortBreak', 'shortBreak', 'longBreak', 'shortBreak', 'shortBreak', 'longBreak']);
+  });
+
+  it('follows shortOnly and longOnly schedules regardless of longEvery', () => {
+    for (const [scheduleType, expected] of [['shortOnly', 'shortBreak'], ['longOnly', 'longBreak']] as const) {
+      const run = fakeRun({ ...config, scheduleType, longEvery: 2 });
+      run.start();
+      const breaks: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        finishSegment(run);
+        breaks.push(run.state.segment);
+        finishSegment(run);
+      }
+      expect(breaks).toEqual([expected, expected, expected, expected]);
+    }
+  });
+
+  it('counts a skipped pomodoro towards the long break and records the skip', () => {
+    const run = fakeRun({ ...config, longEvery: 2 });
+    run.start();
+    run.advance(5 * MIN);
+    run.skip();
+    expect(run.state.pomodorosCompleted).toBe(1);
+    expect(run.state.counters.active).toBe(5 * 60);
+    expect(run.state.adjustments).toEqual([{ at: T0 + 5 * MIN, segment: 'pomodoro', kind: 'skip', seconds: -20 * 60 }]);
+    expect(run.state.segment).toBe('shortBreak');
+
+    run.skip();
+    expect(run.state.segment).toBe('pomodoro');
+    run.skip();
+    expect(run.state.segment).toBe('longBreak');
+  });
+
+  it('skips from a paused segment and keeps running', () => {
+    const run = fakeRun();
+    run.start();
+    run.advance(MIN);
+    run.pause();
+    run.advance(10 * MIN);
+    run.skip();
+    expect(run.state.status).toBe('running');
+    expect(run.state.segment).toBe('shortBreak');
+    expect(run.state.counters.active).toBe(60);
+  });
+
+  it('finishes a Cycles run after the target pomodoros without a trailing break', () => {
+    const run = fakeRun({ ...config, mode: 'cycles', targetCycles: 2 });
+    run.start();
+    finishSegment(run);
+    finishSegment(run);
+    expect(run.state.status).toBe('running');
+    finishSegment(run);
+    expect(run.state.status).toBe('finished');
+    expect(run.state.pomodorosCompleted).toBe(2);
+    expect(run.state.remainingMs).toBe(0);
+  });
+
+  it('pauses once the workday has elapsed on tick, and finishes at the next segmentEnd', () => {
+    const run = fakeRun({ ...config, workday: 40 * 60 });
+    run.start();
+    finishSegment(run); // 25 min focus
+    finishSegment(run); // 5 min break
+    run.advance(10 * MIN);
+    run.tick();
+    expect(run.state.counters.elapsed).toBe(40 * 60);
+    expect(run.state.status).toBe('paused');
+
+    run.resume();
+    run.segmentEnd();
+    expect(run.state.status).toBe('finished');
+  });
+
+  it('finishes a workday at segmentEnd once the workday is reached', () => {
+    const run = fakeRun({ ...config, workday: 25 * 60 });
+    run.start();
+    run.advance(25 * MIN);
+    run.segmentEnd();
+    expect(run.state.status).toBe('finished');
+    expect(run.state.pomodorosCompleted).toBe(1);
+  });
+
+  it('restores a running segment from its runtime and counts the time since it started', () => {
+    const run = fakeRun();
+    run.start();
+    run.advance(3 * MIN);
+    run.tick();
+    const runtime = toRuntime(run.state, config);
+
+    // A reload seven minutes later
+    const restored = fakeRun();
+    restored.advance(10 * MIN);
+    restored.send({ type: 'restore', now: restored.now, runtime });
+    expect(restored.state.status).toBe('running');
+    expect(restored.state.segment).toBe('pomodoro');
+    expect(restored.state.segmentStartedAt).toBe(T0);
+    expect(restored.state.plannedEndAt).toBe(T0 + 25 * MIN);
+    expect(restored.state.remainingMs).toBe(15 * MIN);
+    expect(restored.state.segmentElapsed).toBe(10 * 60);
+    expect(restored.state.counters.active).toBe(10 * 60);
+  });
+
+  it('does not restore a stopped runtime or over a started session', () => {
+    const run = fakeRun();
+    run.start();
+    const runtime = toRuntime(run.state, config);
+    const idle = fakeRun();
+    const before = idle.state;
+    expect(idle.send({ type: 'restore', now: T0, runtime: { ...runtime, isRunning: false } })).toBe(before);
+    const started = run.state;
+    expect(run.send({ type: 'restore', now: T0, runtime })).toBe(started);
+  });
+
+  it('clears the daily time counters on dayRollover but keeps pomodoros', () => {
+    const run = fakeRun();
+    run.start();
+    finishSegment(run);
+    run.advance(MIN);
+    run.tick();
+    run.send({ type: 'dayRollover' });
+    expect(run.state.counters).toMatchObject({ active: 0, brk: 0, elapsed: 0, short: 60, poms: 1 });
+    expect(run.state.status).toBe('running');
+  });
+
+  it('starts over on reset with a new segment id', () => {
+    const run = fakeRun();
+    run.start();
+    finishSegment(run);
+    const { segmentId } = run.state;
+    run.send({ type: 'reset', config });
+    expect(run.state.status).toBe('idle');
+    expect(run.state.pomodorosCompleted).toBe(0);
+    expect(run.state.segmentId).toBe(segmentId + 1);
+  });
+});
+
+describe('schedulePosition', () => {
+  it('walks the schedule from a shared start', () => {
+    expect(schedulePosition(config, T0, T0)).toMatchObject({ segment: 'pomodoro', startedAt: T0, endsAt: T0 + 25 * MIN, pomodorosCompleted: 0, finished: false });
+    expect(schedulePosition(config, T0, T0 + 27 * MIN)).toMatchObject({ segment: 'shortBreak', startedAt: T0 + 25 * MIN, endsAt: T0 + 30 * MIN, pomodorosCompleted: 1 });
+    // Four pomodoros and three short breaks later: the long break
+    expect(schedulePosition(config, T0, T0 + 115 * MIN)).toMatchObject({ segment: 'longBreak', startedAt: T0 + 115 * MIN, endsAt: T0 + 130 * MIN, pomodorosCompleted: 4 });
+  });
+
+  it('reports a Cycles run or a workday as finished', () => {
+    const cycles = schedulePosition({ ...config, mode: 'cycles', targetCycles: 2 }, T0, T0 + 60 * MIN);
+    expect(cycles).toMatchObject({ finished: true, pomodorosCompleted: 2, endsAt: T0 + 55 * MIN });
+    const workday = schedulePosition({ ...config, workday: 30 * 60 }, T0, T0 + 31 * MIN);
+    expect(workday).toMatchObject({ finished: true, pomodorosCompleted: 1 });
+  });
+});
+
+describe('follow', () => {
+  const follow = (run: ReturnType<typeof fakeRun>, startedAt = T0) =>
+    run.send({ type: 'follow', now: run.now, position: schedulePosition(config, startedAt, run.now), config });
+
+  it('joins a shared schedule mid-segment with a fresh session', () => {
+    const run = fakeRun();
+    run.advance(27 * MIN);
+    follow(run);
+    expect(run.state.status).toBe('running');
+    expect(run.state.segment).toBe('shortBreak');
+    expect(run.state.pomodorosCompleted).toBe(1);
+    expect(run.state.plannedEndAt).toBe(T0 + 30 * MIN);
+    expect(run.state.segmentPlanned).toBe(5 * 60);
+    expect(run.state.remainingMs).toBe(3 * MIN);
+    expect(run.state.counters.elapsed).toBe(0);
+  });
+
+  it('leaves a countdown that is on schedule alone', () => {
+    const run = fakeRun();
+    run.start();
+    run.advance(MIN);
+    const before = run.state;
+    expect(follow(run)).toBe(before);
+  });
+
+  it('pulls a drifted or paused countdown back onto the schedule and keeps its time', () => {
+    const run = fakeRun();
+    run.start();
+    run.advance(MIN);
+    run.pause();
+    run.advance(4 * MIN);
+    const { segmentId } = run.state;
+    follow(run);
+    expect(run.state.status).toBe('running');
+    expect(run.state.segment).toBe('pomodoro');
+    expect(run.state.segmentId).toBe(segmentId + 1);
+    expect(run.state.plannedEndAt).toBe(T0 + 25 * MIN);
+    expect(run.state.counters.active).toBe(60);
+  });
+
+  it('moves on to the schedule\'s segment after missing one, logging the time spent', () => {
+    const run = fakeRun();
+    run.start(); // started on its own at T0, following a room that started 17 minutes earlier
+    run.advance(10 * MIN);
+    follow(run, T0 - 17 * MIN);
+    expect(run.state.segment).toBe('shortBreak');
+    expect(run.state.pomodorosCompleted).toBe(1);
+    expect(run.state.plannedEndAt).toBe(T0 + 13 * MIN);
+    expect(run.state.segments).toEqual([{ type: 'pomodoro', startedAt: T0, endedAt: T0 + 10 * MIN, seconds: 10 * 60 }]);
+    expect(run.state.counters.active).toBe(10 * 60);
+  });
+
+  it('ignores a schedule that has finished', () => {
+    const run = fakeRun();
+    const before = run.state;
+    const position = schedulePosition({ ...config, mode: 'cycles', targetCycles: 1 }, T0, T0 + 30 * MIN);
+    expect(run.send({ type: 'follow', now: T0 + 30 * MIN, position, config })).toBe(before);
+  });
+});
@@ -0,0 +1,688 @@
+// Framework-free pomodoro phase machine.
+// Every event carries the wall-clock time it happened at, so the reducer never
+// reads Date.now() itself and can be driven by a fake clock.
+
+export type SegmentType = 'pomodoro' | 'shortBreak' | 'longBreak';
+export type RunMode = 'workday' | 'cycles' | 'flowtime';
+export type ScheduleType = 'standard' | 'shortOnly' | 'longOnly' | 'custom';
+
+// One step of a user-defined sequence, e.g. { type: 'longBreak', label: 'Lunch', duration: 1800 }
+export type SequenceStep = {
+  type: SegmentType;
+  label: string;
+  duration: number; // seconds
+};
+
+export type SessionConfig = {
+  pomodoro: number;   // seconds
+  shortBreak: number; // seconds
+  longBreak: number;  // seconds
+  workday: number;    // seconds
+  longEvery: number;
+  mode: RunMode;
+  targetCycles: number;
+  scheduleType: ScheduleType;
+  sequence: SequenceStep[]; // followed instead of the durations above when scheduleType is 'custom'
+  flowBreakRatio: number;   // flowtime: break = focus / ratio (5 means 1:5)
+};
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  pomodoro: 25 * 60,
+  shortBreak: 5 * 60,
+  longBreak: 15 * 60,
+  workday: 8 * 3600,
+  longEvery: 4,
+  mode: 'workday',
+  targetCycles: 8,
+  scheduleType: 'standard',
+  sequence: [],
+  flowBreakRatio: 5,
+};
+
+// Same shape as the STORAGE.CUMULATIVE record
+export type SessionCounters = {
+  active: number;
+  brk: number;
+  short: number;
+  long: number;
+  poms: number;
+  elapsed: number;
+};
+
+export type SessionStatus = 'idle' | 'running' | 'paused' | 'finished';
+
+// A manual change to the planned length of a segment; `seconds` is the signed delta
+export type SegmentAdjustment = {
+  at: number; // epoch ms
+  segment: SegmentType;
+  kind: 'extend' | 'shorten' | 'skip';
+  seconds: number;
+};
+
+export type InterruptionKind = 'internal' | 'external';
+
+// Something that broke the focus during a segment; a voided pomodoro restarts from scratch
+export type Interruption = {
+  at: number; // epoch ms
+  segment: SegmentType;
+  kind: InterruptionKind;
+  note?: string;
+  voided?: boolean;
+};
+
+// A finished (or, for the running one, partial) segment with its actual length
+export type SegmentLog = {
+  type: SegmentType;
+  startedAt: number; // epoch ms
+  endedAt: number;   // epoch ms
+  seconds: number;   // time actually spent, pauses excluded
+  voided?: boolean;  // abandoned pomodoro, not counted
+  note?: string;     // pomodoro reflection: what got done
+  rating?: number;   // pomodoro reflection: focus rating 1-5
+};
+
+export type SessionState = {
+  status: SessionStatus;
+  segment: SegmentType;
+  stepIndex: number;              // position in config.sequence for custom schedules
+  segmentId: number;              // bumped whenever the countdown restarts from segmentDuration
+  segmentDuration: number;        // seconds the current countdown started from
+  segmentPlanned: number;         // planned length of the current segment, adjustments included
+  segmentElapsed: number;         // seconds spent in the current segment so far
+  countUp: boolean;               // flowtime focus: no planned end, runs until stopped
+  segmentStartedAt: number | null; // epoch ms
+  plannedEndAt: number | null;    // epoch ms, only while running
+  remainingMs: number;            // remaining time of the segment while not running
+  lastTickAt: number | null;      // epoch ms of the last accounted whole second
+  pomodorosCompleted: number;
+  counters: SessionCounters;
+  adjustments: SegmentAdjustment[];
+  segments: SegmentLog[];
+  interruptions: Interruption[];
+};
+
+// Persisted under STORAGE.RUNTIME to catch up a running segment after a reload
+export type SessionRuntime = {
+  isRunning: boolean;
+  currentType: SegmentType;
+  stepIndex?: number;
+  countUp?: boolean;
+  startedAt: number;
+  plannedEndAt: number;
+  pomodorosCompleted: number;
+  scheduleType?: ScheduleType;
+  longEvery?: number;
+  durations?: { pomodoroDuration: number; shortBreakDuration: number; longBreakDuration: number };
+  runMode?: RunMode;
+  targetCycles?: number;
+  adjustments?: SegmentAdjustment[];
+  segments?: SegmentLog[];
+  interruptions?: Interruption[];
+};
+
+export type SessionEvent =
+  | { type: 'start'; now: number; config: SessionConfig }
+  | { type: 'pause'; now: number }
+  | { type: 'resume'; now: number }
+  | { type: 'tick'; now: number; config: SessionConfig }
+  | { type: 'segmentEnd'; now: number; config: SessionConfig }
+  | { type: 'skip'; now: number; config: SessionConfig }
+  | { type: 'adjust'; now: number; seconds: number }
+  | { type: 'interrupt'; now: number; kind: InterruptionKind; note?: string; voidPomodoro?: boolean; config: SessionConfig }
+  | { type: 'reflect'; startedAt: number; note?: string; rating?: number }
+  | { type: 'reset'; config: SessionConfig }
+  | { type: 'configure'; config: SessionConfig }
+  | { type: 'restore'; now: number; runtime: SessionRuntime }
+  | { type: 'mirror'; now: number; state: SessionState }
+  | { type: 'rebase'; now: number }
+  | { type: 'follow'; now: number; position: SchedulePosition; config: SessionConfig }
+  | { type: 'dayRollover' };
+
+export const emptyCounters = (): SessionCounters => ({ active: 0, brk: 0, short: 0, long: 0, poms: 0, elapsed: 0 });
+
+const LABELS: Record<SegmentType, string> = {
+  pomodoro: 'Pomodoro',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
+};
+
+// Keep only well-formed steps from persisted data (settings, profiles)
+export const sanitizeSequence = (value: unknown): SequenceStep[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is SequenceStep =>
+    !!v && typeof v === 'object' &&
+    (v.type === 'pomodoro' || v.type === 'shortBreak' || v.type === 'longBreak') &&
+    typeof v.label === 'string' &&
+    typeof v.duration === 'number' && v.duration > 0,
+  );
+};
+
+const RUN_MODES: RunMode[] = ['workday', 'cycles', 'flowtime'];
+const SCHEDULE_TYPES: ScheduleType[] = ['standard', 'shortOnly', 'longOnly', 'custom'];
+
+// Stored settings or profile with invalid or missing fields replaced by the defaults
+export const normalizeConfig = (value: unknown): SessionConfig => {
+  const v = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof SessionConfig, unknown>>;
+  const num = (n: unknown, min: number, fallback: number) => (typeof n === 'number' && Number.isFinite(n) && n >= min ? n : fallback);
+  const d = DEFAULT_SESSION_CONFIG;
+  return {
+    pomodoro: num(v.pomodoro, 0, d.pomodoro),
+    shortBreak: num(v.shortBreak, 0, d.shortBreak),
+    longBreak: num(v.longBreak, 0, d.longBreak),
+    workday: num(v.workday, 0, d.workday),
+    longEvery: num(v.longEvery, 2, d.longEvery),
+    mode: RUN_MODES.includes(v.mode as RunMode) ? (v.mode as RunMode) : d.mode,
+    targetCycles: num(v.targetCycles, 1, d.targetCycles),
+    scheduleType: SCHEDULE_TYPES.includes(v.scheduleType as ScheduleType) ? (v.scheduleType as ScheduleType) : d.scheduleType,
+    sequence: sanitizeSequence(v.sequence),
+    flowBreakRatio: num(v.flowBreakRatio, 1, d.flowBreakRatio),
+  };
+};
+
+// Steps of the custom sequence, or null when the built-in schedules apply.
+// Flowtime derives its own segment lengths and ignores custom sequences.
+export const customSteps = (config: SessionConfig): SequenceStep[] | null =>
+  config.mode !== 'flowtime' && config.scheduleType === 'custom' && config.sequence.length > 0 ? config.sequence : null;
+
+const isCountUp = (config: SessionConfig, segment: SegmentType): boolean =>
+  config.mode === 'flowtime' && segment === 'pomodoro';
+
+// Suggested flowtime break for a focus block of `focusSeconds`
+export const flowBreakSeconds = (config: SessionConfig, focusSeconds: number): number =>
+  Math.max(1, Math.round(focusSeconds / Math.max(1, config.flowBreakRatio)));
+
+export const segmentSeconds = (config: SessionConfig, segment: SegmentType, stepIndex = 0): number => {
+  if (isCountUp(config, segment)) return 0;
+  const steps = customSteps(config);
+  if (steps) return steps[stepIndex % steps.length].duration;
+  switch (segment) {
+    case 'shortBreak':
+      return config.shortBreak;
+    case 'longBreak':
+      return config.longBreak;
+    default:
+      return config.pomodoro;
+  }
+};
+
+// Break that follows the pomodoro which brings the total to `completed`
+export const breakTypeAfter = (scheduleType: ScheduleType, longEvery: number, completed: number): SegmentType => {
+  if (scheduleType === 'shortOnly') return 'shortBreak';
+  if (scheduleType === 'longOnly') return 'longBreak';
+  return completed > 0 && longEvery > 0 && completed % longEvery === 0 ? 'longBreak' : 'shortBreak';
+};
+
+export const segmentLabel = (config: SessionConfig, segment: SegmentType, stepIndex = 0): string => {
+  const steps = customSteps(config);
+  if (isCountUp(config, segment)) return 'Focus';
+  return (steps && steps[stepIndex % steps.length].label) || LABELS[segment];
+};
+
+// Work segments that make up a Cycles run; a custom sequence defines its own count
+export const targetPomodoros = (config: SessionConfig): number => {
+  const steps = customSteps(config);
+  return steps ? steps.filter((s) => s.type === 'pomodoro').length : config.targetCycles;
+};
+
+type Position = { segment: SegmentType; stepIndex: number };
+
+const startPosition = (config: SessionConfig): Position => {
+  const steps = customSteps(config);
+  return { segment: steps ? steps[0].type : 'pomodoro', stepIndex: 0 };
+};
+
+// Segment that follows `pos`, given the pomodoros completed once `pos` has ended.
+// Custom sequences wrap around so a Workday run can repeat them.
+const followingPosition = (config: SessionConfig, pos: Position, completed: number): Position => {
+  const steps = customSteps(config);
+  if (steps) {
+    const stepIndex = (pos.stepIndex + 1) % steps.length;
+    return { segment: steps[stepIndex].type, stepIndex };
+  }
+  if (pos.segment === 'pomodoro') {
+    return { segment: breakTypeAfter(config.scheduleType, config.longEvery, completed), stepIndex: 0 };
+  }
+  return { segment: 'pomodoro', stepIndex: 0 };
+};
+
+// Where a run started at `startedAt` stands at `now` when nobody pauses, skips or adjusts.
+// Focus rooms (utils/rooms) share one start, so every member derives the same segment.
+export type SchedulePosition = Position & {
+  startedAt: number; // epoch ms
+  endsAt: number;    // epoch ms
+  pomodorosCompleted: number;
+  finished: boolean; // the Cycles target or the workday was reached
+};
+
+export const schedulePosition = (config: SessionConfig, startedAt: number, now: number): SchedulePosition => {
+  const target = config.mode === 'cycles' ? targetPomodoros(config) : Infinity;
+  let pos = startPosition(config);
+  let at = startedAt;
+  let completed = 0;
+  let elapsed = 0;
+  // Bounded walk; zero-length segments count as one second so time always moves on
+  for (let guard = 0; guard < 100000; guard++) {
+    const duration = Math.max(1, segmentSeconds(config, pos.segment, pos.stepIndex));
+    const endsAt = at + duration * 1000;
+    if (endsAt > now) return { ...pos, startedAt: at, endsAt, pomodorosCompleted: completed, finished: false };
+    if (pos.segment === 'pomodoro') completed += 1;
+    elapsed += duration;
+    if (completed >= target || (config.mode === 'workday' && elapsed >= config.workday)) {
+      return { ...pos, startedAt: at, endsAt, pomodorosCompleted: completed, finished: true };
+    }
+    pos = followingPosition(config, pos, completed);
+    at = endsAt;
+  }
+  return { ...pos, startedAt: at, endsAt: at, pomodorosCompleted: completed, finished: true };
+};
+
+// How far a followed countdown may drift before it is pulled back onto the schedule
+const FOLLOW_TOLERANCE_MS = 1500;
+
+export type PlannedSegment = {
+  type: SegmentType;
+  label: string;
+  duration: number; // seconds
+};
+
+// The current segment followed by the upcoming ones, up to the end of a Cycles run
+// (no trailing break after the last pomodoro) or `limit` entries.
+// Flowtime segments have no planned length (0), except the break after the running
+// focus block, which is suggested from the focus time so far.
+export const planAhead = (
+  config: SessionConfig,
+  from: Pick<SessionState, 'segment' | 'stepIndex' | 'segmentPlanned' | 'segmentElapsed' | 'pomodorosCompleted'>,
+  limit = 500,
+): PlannedSegment[] => {
+  const target = config.mode === 'cycles' ? targetPomodoros(config) : Infinity;
+  let pos: Position = { segment: from.segment, stepIndex: from.stepIndex };
+  let completed = from.pomodorosCompleted;
+  const plan: PlannedSegment[] = [{ type: pos.segment, label: segmentLabel(config, pos.segment, pos.stepIndex), duration: from.segmentPlanned }];
+  while (plan.length < limit) {
+    if (pos.segment === 'pomodoro') {
+      completed += 1;
+      if (completed >= target) break;
+    }
+    const after = pos;
+    pos = followingPosition(config, pos, completed);
+    const duration = config.mode === 'flowtime' && after.segment === 'pomodoro'
+      ? (plan.length === 1 ? flowBreakSeconds(config, from.segmentElapsed) : 0)
+      : segmentSeconds(config, pos.segment, pos.stepIndex);
+    plan.push({ type: pos.segment, label: segmentLabel(config, pos.segment, pos.stepIndex), duration });
+  }
+  return plan;
+};
+
+// Net seconds added to (or removed from) segments of the given type
+export const adjustedSeconds = (adjustments: SegmentAdjustment[], segment: SegmentType): number =>
+  adjustments.reduce((acc, a) => (a.segment === segment ? acc + a.seconds : acc), 0);
+
+// Configured seconds per segment type for a run of `pomodoros` work segments,
+// without a trailing break after the last one
+export const plannedTotals = (config: SessionConfig, pomodoros: number): { active: number; short: number; long: number } => {
+  const totals = { active: 0, short: 0, long: 0 };
+  let pos = startPosition(config);
+  let completed = 0;
+  // Bounded walk: a custom sequence without work steps never completes a pomodoro
+  for (let guard = 0; completed < pomodoros && guard < 10000; guard++) {
+    const duration = segmentSeconds(config, pos.segment, pos.stepIndex);
+    if (pos.segment === 'pomodoro') {
+      totals.active += duration;
+      completed += 1;
+    } else if (pos.segment === 'shortBreak') {
+      totals.short += duration;
+    } else {
+      totals.long += duration;
+    }
+    pos = followingPosition(config, pos, completed);
+  }
+  return totals;
+};
+
+export const isWorkdayComplete = (state: SessionState, config: SessionConfig): boolean =>
+  config.mode === 'workday' && state.counters.elapsed >= config.workday;
+
+export const createSessionState = (config: SessionConfig, counters: SessionCounters = emptyCounters()): SessionState => {
+  const { segment, stepIndex } = startPosition(config);
+  const duration = segmentSeconds(config, segment, stepIndex);
+  return {
+    status: 'idle',
+    segment,
+    stepIndex,
+    segmentId: 0,
+    segmentDuration: duration,
+    segmentPlanned: duration,
+    segmentElapsed: 0,
+    countUp: isCountUp(config, segment),
+    segmentStartedAt: null,
+    plannedEndAt: null,
+    remainingMs: duration * 1000,
+    lastTickAt: null,
+    pomodorosCompleted: 0,
+    counters,
+    adjustments: [],
+    segments: [],
+    interruptions: [],
+  };
+};
+
+export const toRuntime = (state: SessionState, config: SessionConfig): SessionRuntime => ({
+  isRunning: state.status === 'running',
+  currentType: state.segment,
+  stepIndex: state.stepIndex,
+  countUp: state.countUp,
+  startedAt: state.segmentStartedAt ?? 0,
+  plannedEndAt: state.plannedEndAt ?? 0,
+  pomodorosCompleted: state.pomodorosCompleted,
+  scheduleType: config.scheduleType,
+  longEvery: config.longEvery,
+  durations: { pomodoroDuration: config.pomodoro, shortBreakDuration: config.shortBreak, longBreakDuration: config.longBreak },
+  runMode: config.mode,
+  targetCycles: config.targetCycles,
+  adjustments: state.adjustments,
+  segments: state.segments,
+  interruptions: state.interruptions,
+});
+
+const addSeconds = (counters: SessionCounters, segment: SegmentType, seconds: number): SessionCounters => ({
+  ...counters,
+  elapsed: counters.elapsed + seconds,
+  active: segment === 'pomodoro' ? counters.active + seconds : counters.active,
+  brk: segment === 'pomodoro' ? counters.brk : counters.brk + seconds,
+  short: segment === 'shortBreak' ? counters.short + seconds : counters.short,
+  long: segment === 'longBreak' ? counters.long + seconds : counters.long,
+});
+
+const beginSegment = (
+  state: SessionState,
+  { segment, stepIndex }: Position,
+  now: number,
+  config: SessionConfig,
+  duration = segmentSeconds(config, segment, stepIndex),
+): SessionState => {
+  const countUp = isCountUp(config, segment);
+  return {
+    ...state,
+    status: 'running',
+    segment,
+    stepIndex,
+    segmentId: state.segmentId + 1,
+    segmentDuration: duration,
+    segmentPlanned: duration,
+    segmentElapsed: 0,
+    countUp,
+    segmentStartedAt: now,
+    plannedEndAt: countUp ? null : now + duration * 1000,
+    remainingMs: duration * 1000,
+    lastTickAt: now,
+  };
+};
+
+const remainingAt = (state: SessionState, now: number): number =>
+  state.plannedEndAt != null ? Math.max(0, state.plannedEndAt - now) : state.remainingMs;
+
+const stopped = (state: SessionState, now: number, status: SessionStatus): SessionState => ({
+  ...state,
+  status,
+  remainingMs: remainingAt(state, now),
+  plannedEndAt: null,
+  lastTickAt: null,
+});
+
+// Accrue whole elapsed seconds into the counters, keeping the sub-second remainder
+const accrue = (state: SessionState, now: number): SessionState => {
+  if (state.status !== 'running') return state;
+  if (state.lastTickAt == null) return { ...state, lastTickAt: now };
+  const deltaSec = Math.floor(Math.max(0, now - state.lastTickAt) / 1000);
+  if (deltaSec <= 0) return state;
+  return {
+    ...state,
+    lastTickAt: state.lastTickAt + deltaSec * 1000,
+    segmentElapsed: state.segmentElapsed + deltaSec,
+    counters: addSeconds(state.counters, state.segment, deltaSec),
+  };
+};
+
+// Segment log including the running segment up to `now`
+export const loggedSegments = (state: SessionState, now: number): SegmentLog[] => {
+  if (state.segmentStartedAt == null || state.segmentElapsed <= 0) return state.segments;
+  return [...state.segments, { type: state.segment, startedAt: state.segmentStartedAt, endedAt: now, seconds: state.segmentElapsed }];
+};
+
+const endSegment = (state: SessionState, now: number, config: SessionConfig): SessionState => {
+  const ticked = accrue(state, now);
+  const wasPomodoro = ticked.segment === 'pomodoro';
+  const completed = ticked.pomodorosCompleted + (wasPomodoro ? 1 : 0);
+  const counters = wasPomodoro ? { ...ticked.counters, poms: ticked.counters.poms + 1 } : ticked.counters;
+  const advanced = { ...ticked, pomodorosCompleted: completed, counters, segments: loggedSegments(ticked, now) };
+
+  const workdayDone = isWorkdayComplete(ticked, config);
+  const cyclesDone = config.mode === 'cycles' && wasPomodoro && completed >= targetPomodoros(config);
+  if (workdayDone || cyclesDone) {
+    return { ...stopped(advanced, now, 'finished'), remainingMs: 0 };
+  }
+
+  const next = followingPosition(config, { segment: ticked.segment, stepIndex: ticked.stepIndex }, completed);
+  if (ticked.countUp) {
+    return beginSegment(advanced, next, now, config, flowBreakSeconds(config, ticked.segmentElapsed));
+  }
+  return beginSegment(advanced, next, now, config);
+};
+
+export function sessionReducer(state: SessionState, event: SessionEvent): SessionState {
+  switch (event.type) {
+    case 'start':
+      return beginSegment(
+        { ...state, pomodorosCompleted: 0, counters: emptyCounters(), adjustments: [], segments: [], interruptions: [] },
+        startPosition(event.config),
+        event.now,
+        event.config,
+      );
+
+    case 'pause':
+      if (state.status !== 'running') return state;
+      return stopped(accrue(state, event.now), event.now, 'paused');
+
+    case 'resume':
+      if (state.status !== 'paused') return state;
+      return {
+        ...state,
+        status: 'running',
+        plannedEndAt: state.countUp ? null : event.now + state.remainingMs,
+        lastTickAt: event.now,
+      };
+
+    case 'tick': {
+      const next = accrue(state, event.now);
+      if (next === state) return state;
+      // Stop the clock once the configured workday has elapsed
+      if (isWorkdayComplete(next, event.config)) return stopped(next, event.now, 'paused');
+      return next;
+    }
+
+    case 'segmentEnd':
+      if (state.status !== 'running') return state;
+      return endSegment(state, event.now, event.config);
+
+    case 'skip': {
+      // Ends the segment early; a skipped pomodoro still counts towards the long break
+      if (state.status !== 'running' && state.status !== 'paused') return state;
+      const { now } = event;
+      const resumed = { ...state, status: 'running' as const, lastTickAt: state.lastTickAt ?? now };
+      // Stopping a flowtime focus block is its normal end, not a skip
+      if (state.countUp) return endSegment(resumed, now, event.config);
+      const skipped: SegmentAdjustment = {
+        at: now,
+        segment: state.segment,
+        kind: 'skip',
+        seconds: -Math.ceil(remainingAt(state, now) / 1000),
+      };
+      return endSegment({ ...resumed, adjustments: [...state.adjustments, skipped] }, now, event.config);
+    }
+
+    case 'adjust': {
+      if ((state.status !== 'running' && state.status !== 'paused') || state.countUp) return state;
+      const { now } = event;
+      const remainingMs = remainingAt(state, now);
+      const nextRemainingMs = Math.max(0, remainingMs + event.seconds * 1000);
+      const applied = Math.round((nextRemainingMs - remainingMs) / 1000);
+      if (applied === 0) return state;
+      return {
+        ...state,
+        segmentId: state.segmentId + 1,
+        segmentDuration: nextRemainingMs / 1000,
+        segmentPlanned: Math.max(0, state.segmentPlanned + applied),
+        plannedEndAt: state.status === 'running' ? now + nextRemainingMs : null,
+        remainingMs: nextRemainingMs,
+        adjustments: [...state.adjustments, { at: now, segment: state.segment, kind: applied > 0 ? 'extend' : 'shorten', seconds: applied }],
+      };
+    }
+
+    case 'interrupt': {
+      if (state.status !== 'running' && state.status !== 'paused') return state;
+      const { now } = event;
+      const voided = !!event.voidPomodoro && state.segment === 'pomodoro';
+      const note = event.note?.trim();
+      const interruption: Interruption = {
+        at: now,
+        segment: state.segment,
+        kind: event.kind,
+        ...(note ? { note } : {}),
+        ...(voided ? { voided: true } : {}),
+      };
+      const logged = { ...state, interruptions: [...state.interruptions, interruption] };
+      if (!voided) return logged;
+      // Abandon the pomodoro: its time stays in the counters but it does not count,
+      // and a fresh one starts in the same state (running or paused)
+      const ticked = state.status === 'running' ? accrue(logged, now) : logged;
+      const segments = ticked.segmentStartedAt != null && ticked.segmentElapsed > 0
+        ? [...ticked.segments, { type: ticked.segment, startedAt: ticked.segmentStartedAt, endedAt: now, seconds: ticked.segmentElapsed, voided: true }]
+        : ticked.segments;
+      const restarted = beginSegment({ ...ticked, segments }, { segment: state.segment, stepIndex: state.stepIndex }, now, event.config);
+      return state.status === 'paused' ? stopped(restarted, now, 'paused') : restarted;
+    }
+
+    case 'reflect': {
+      // Attach a note and/or focus rating to the logged pomodoro that started at `startedAt`
+      const note = event.note?.trim();
+      const rating = typeof event.rating === 'number' ? Math.min(5, Math.max(1, Math.round(event.rating))) : undefined;
+      if (!note && rating === undefined) return state;
+      const idx = state.segments.findIndex((seg) => seg.type === 'pomodoro' && seg.startedAt === event.startedAt);
+      if (idx < 0) return state;
+      const segments = [...state.segments];
+      segments[idx] = { ...segments[idx], ...(note ? { note } : {}), ...(rating !== undefined ? { rating } : {}) };
+      return { ...state, segments };
+    }
+
+    case 'reset':
+      return { ...createSessionState(event.config), segmentId: state.segmentId + 1 };
+
+    case 'configure': {
+      // Settings only reshape an idle countdown; a started segment keeps its length
+      if (state.status !== 'idle') return state;
+      const { segment, stepIndex } = startPosition(event.config);
+      const duration = segmentSeconds(event.config, segment, stepIndex);
+      const countUp = isCountUp(event.config, segment);
+      if (segment === state.segment && duration === state.segmentDuration && countUp === state.countUp) return state;
+      return {
+        ...state,
+        segment,
+        stepIndex,
+        countUp,
+        segmentId: state.segmentId + 1,
+        segmentDuration: duration,
+        segmentPlanned: duration,
+        remainingMs: duration * 1000,
+      };
+    }
+
+    case 'restore': {
+      const { runtime, now } = event;
+      if (!runtime.isRunning || state.status !== 'idle') return state;
+      const elapsedSinceStart = Math.max(0, Math.floor((now - runtime.startedAt) / 1000));
+      const countUp = runtime.countUp ?? false;
+      const remainingMs = countUp ? 0 : Math.max(0, runtime.plannedEndAt - now);
+      return {
+        ...state,
+        status: 'running',
+        segment: runtime.currentType,
+        stepIndex: runtime.stepIndex ?? 0,
+        segmentId: state.segmentId + 1,
+        segmentDuration: Math.ceil(remainingMs / 1000),
+        segmentPlanned: countUp ? 0 : Math.max(0, Math.round((runtime.plannedEndAt - runtime.startedAt) / 1000)),
+        segmentElapsed: elapsedSinceStart,
+        countUp,
+        segmentStartedAt: runtime.startedAt,
+        plannedEndAt: countUp ? null : runtime.plannedEndAt,
+        remainingMs,
+        lastTickAt: now,
+        pomodorosCompleted: runtime.pomodorosCompleted,
+        counters: addSeconds(state.counters, runtime.currentType, elapsedSinceStart),
+        adjustments: runtime.adjustments ?? [],
+        segments: runtime.segments ?? [],
+        interruptions: runtime.interruptions ?? [],
+      };
+    }
+
+    case 'mirror': {
+      // State of the tab that owns the timer. This tab's countdown restarts from the
+      // time left whenever the owner's does, and otherwise keeps running undisturbed.
+      const remote = event.state;
+      if (remote.segmentId === state.segmentId && remote.segmentStartedAt === state.segmentStartedAt) {
+        return { ...remote, segmentDuration: state.segmentDuration };
+      }
+      return { ...remote, segmentDuration: remainingAt(remote, event.now) / 1000 };
+    }
+
+    case 'rebase':
+      // Restart the countdown from the time actually left, e.g. after taking over from
+      // another tab; an overdue segment gets zero so the Timer completes it right away
+      if (state.status !== 'running' || state.countUp) return state;
+      return { ...state, segmentId: state.segmentId + 1, segmentDuration: remainingAt(state, event.now) / 1000 };
+
+    case 'follow': {
+      // Join a shared schedule, or get back onto it after drifting, pausing or missing
+      // segments. Time already spent in the segment stays counted.
+      const { now, position: p } = event;
+      if (p.finished || p.endsAt <= now) return state;
+      const fresh = state.status === 'idle' || state.status === 'finished';
+      const same = !fresh && state.segment === p.segment && state.stepIndex === p.stepIndex && state.pomodorosCompleted === p.pomodorosCompleted;
+      if (same && state.status === 'running' && state.plannedEndAt != null && Math.abs(state.plannedEndAt - p.endsAt) < FOLLOW_TOLERANCE_MS) {
+        return state;
+      }
+      const remainingMs = p.endsAt - now;
+      const planned = Math.round((p.endsAt - p.startedAt) / 1000);
+      if (same) {
+        const ticked = state.status === 'running' ? accrue(state, now) : { ...state, lastTickAt: now };
+        return {
+          ...ticked,
+          status: 'running',
+          segmentId: state.segmentId + 1,
+          segmentDuration: remainingMs / 1000,
+          segmentPlanned: planned,
+          plannedEndAt: p.endsAt,
+          remainingMs,
+        };
+      }
+      let base: SessionState;
+      if (fresh) {
+        base = { ...state, counters: emptyCounters(), adjustments: [], segments: [], interruptions: [] };
+      } else {
+        const ticked = state.status === 'running' ? accrue(state, now) : state;
+        base = { ...ticked, segments: loggedSegments(ticked, now) };
+      }
+      return {
+        ...beginSegment(base, p, now, event.config, remainingMs / 1000),
+        segmentPlanned: planned,
+        plannedEndAt: p.endsAt,
+        pomodorosCompleted: p.pomodorosCompleted,
+      };
+    }
+
+    case 'dayRollover':
+      return { ...state, counters: { ...state.counters, active: 0, brk: 0, elapsed: 0 } };
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,209 @@
+import { getTodayKeyLocal } from './dates';
+import { BY_DATE, BY_ENDED, BY_PROFILE_DATE, SESSION_STORE, requestResult, withStore } from './db';
+import type { Interruption, RunMode, SegmentAdjustment, SegmentLog } from './sessionEngine';
+
+// Sessions not timed by Tempo: added by hand in the Diary, or imported from another tracker
+export type SessionSource = 'manual' | 'imported';
+
+// One finished run of the timer, as kept in the session store
+export type SessionRecord = {
+  id: string; // UUID, also the Firestore document id
+  dateKey: string;
+  profile: string;
+  active: number;
+  break: number;
+  short: number;
+  long: number;
+  pomodoros: number;
+  startedAt: number;
+  endedAt: number;
+  mode: RunMode;
+  adjustments?: SegmentAdjustment[];
+  segments?: SegmentLog[]; // actual segment lengths, e.g. flowtime focus blocks
+  interruptions?: Interruption[];
+  taskId?: string; // active task when the session ended
+  source?: SessionSource;
+  editedAt?: number; // epoch ms of the last manual edit
+  updatedAt: number; // epoch ms of the last change; the later copy wins when merging
+  sealed?: string; // synced copies only: the record encrypted (services/e2e), the other fields blank
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isSessionId = (id: unknown): id is string => typeof id === 'string' && UUID_RE.test(id);
+
+const formatUuid = (bytes: Uint8Array, version: number): string => {
+  bytes[6] = (bytes[6] & 0x0f) | (version << 4);
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Random id for a new session; randomUUID needs a secure context
+export function newSessionId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return formatUuid(crypto.getRandomValues(new Uint8Array(16)), 4);
+}
+
+// Id derived from `seed` (cyrb128 hash as a version 8 UUID), so every device computes the same one
+export function stableSessionId(seed: string): string {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  [h1, h2, h3, h4].forEach((h, i) => view.setUint32(i * 4, h >>> 0));
+  return formatUuid(bytes, 8);
+}
+
+// Sessions saved before ids were UUIDs were told apart by end time only (timestamp ids
+// locally, random document ids in Firestore); both map to the same id everywhere
+export const legacySessionId = (endedAt: number): string => stableSessionId(`session-${endedAt}`);
+
+const RUN_MODES: RunMode[] = ['workday', 'cycles', 'flowtime'];
+
+// Upgrade a stored or imported record to the current shape; null when it cannot be used.
+// Older records used `brk` for break time and lack UUIDs, short/long splits, start times or mode.
+export function normalizeSession(value: unknown): SessionRecord | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const num = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : undefined);
+  const endedAt = num(v.endedAt);
+  if (endedAt === undefined) return null;
+  const active = num(v.active) ?? 0;
+  const brk = num(v.break) ?? num(v.brk) ?? 0;
+  const long = Math.min(num(v.long) ?? 0, brk);
+  const startedAt = num(v.startedAt) ?? endedAt - (active + brk) * 1000;
+  const rest = { ...v };
+  delete rest.brk;
+  return {
+    ...(rest as Partial<SessionRecord>),
+    id: isSessionId(v.id) ? v.id : legacySessionId(endedAt),
+    dateKey: typeof v.dateKey === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v.dateKey) ? v.dateKey : getTodayKeyLocal(new Date(startedAt)),
+    profile: typeof v.profile === 'string' && v.profile ? v.profile : 'Default',
+    active,
+    break: brk,
+    short: num(v.short) ?? brk - long,
+    long,
+    pomodoros: num(v.pomodoros) ?? 0,
+    startedAt,
+    endedAt,
+    mode: RUN_MODES.includes(v.mode as RunMode) ? (v.mode as RunMode) : 'workday',
+    updatedAt: num(v.updatedAt) ?? num(v.editedAt) ?? endedAt,
+  };
+}
+
+// Session history lives in IndexedDB (see db.ts); records there are already normalized.
+// Writes resolve once committed; callers dispatch `diary-updated` afterwards.
+
+// Every session, oldest first
+export const loadSessions = (): Promise<SessionRecord[]> =>
+  withStore(SESSION_STORE, 'readonly', (store) => requestResult(store.index(BY_ENDED).getAll() as IDBRequest<SessionRecord[]>));
+
+// Insert or overwrite by id
+export const saveSessions = (sessions: SessionRecord[]): Promise<void> =>
+  withStore(SESSION_STORE, 'readwrite', (store) => { sessions.forEach((s) => store.put(s)); });
+
+export const deleteSessions = (ids: string[]): Promise<void> =>
+  withStore(SESSION_STORE, 'readwrite', (store) => { ids.forEach((id) => store.delete(id)); });
+
+export const replaceSessions = (sessions: SessionRecord[]): Promise<void> =>
+  withStore(SESSION_STORE, 'readwrite', (store) => {
+    store.clear();
+    sessions.forEach((s) => store.put(s));
+  });
+
+export type SessionQuery = {
+  from: string; // first day key, inclusive
+  to: string;   // last day key, inclusive
+  profile?: string;
+  offset: number;
+  limit: number;
+};
+
+// The day index to read and its key range, for one profile or all of them
+const dayRange = (store: IDBObjectStore, from: string, to: string, profile?: string) => ({
+  index: store.index(profile != null ? BY_PROFILE_DATE : BY_DATE),
+  range: profile != null
+    ? IDBKeyRange.bound([profile, from], [profile, to, Infinity])
+    : IDBKeyRange.bound([from], [to, Infinity]),
+});
+
+// Every session in a day range (inclusive), oldest first
+export const loadSessionsBetween = (from: string, to: string, profile?: string): Promise<SessionRecord[]> =>
+  withStore(SESSION_STORE, 'readonly', (store) => {
+    const { index, range } = dayRange(store, from, to, profile);
+    return requestResult(index.getAll(range) as IDBRequest<SessionRecord[]>);
+  });
+
+// Profile names that have sessions, sorted; skips from one profile to the next in the index
+export const loadSessionProfiles = (): Promise<string[]> =>
+  withStore(SESSION_STORE, 'readonly', (store) => new Promise<string[]>((resolve, reject) => {
+    const profiles: string[] = [];
+    const req = store.index(BY_PROFILE_DATE).openKeyCursor();
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve(profiles);
+      const profile = (cursor.key as [string, string, number])[0];
+      profiles.push(profile);
+      // Arrays sort after strings, so this is past every key of the profile
+      cursor.continue([profile, []]);
+    };
+  }));
+
+// Which of `ids` are saved already
+export const savedSessionIds = (ids: string[]): Promise<Set<string>> =>
+  withStore(SESSION_STORE, 'readonly', async (store) => {
+    const found = await Promise.all(ids.map((id) => requestResult(store.getKey(id))));
+    return new Set(ids.filter((_, i) => found[i] !== undefined));
+  });
+
+// One page of sessions in a day range, newest first, with the total number of matches
+export const querySessions = (q: SessionQuery): Promise<{ rows: SessionRecord[]; total: number }> =>
+  withStore(SESSION_STORE, 'readonly', async (store) => {
+    const { index, range } = dayRange(store, q.from, q.to, q.profile);
+    const total = await requestResult(index.count(range));
+    const rows: SessionRecord[] = [];
+    if (q.offset >= total || q.limit <= 0) return { rows, total };
+    await new Promise<void>((resolve, reject) => {
+      const req = index.openCursor(range, 'prev');
+      let skipped = q.offset === 0;
+      req.onerror = () => reject(req.error);
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve();
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(q.offset);
+          return;
+        }
+        rows.push(cursor.value as SessionRecord);
+        if (rows.length >= q.limit) resolve();
+        else cursor.continue();
+      };
+    });
+    return { rows, total };
+  });
+
+// Incoming copies to keep: sessions unknown locally, or changed after the local copy
+export function newerSessions(local: SessionRecord[], incoming: SessionRecord[]): SessionRecord[] {
+  const byId = new Map(local.map((s) => [s.id, s]));
+  return incoming.filter((s) => {
+    const mine = byId.get(s.id);
+    return !mine || s.updatedAt > mine.updatedAt;
+  });
+}
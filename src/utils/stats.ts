@@ -0,0 +1,50 @@
+import { getTodayKeyLocal } from './dates';
+import type { SessionRecord } from './sessions';
+
+export type DayTotals = { active: number; short: number; long: number; poms: number };
+
+export const emptyDayTotals = (): DayTotals => ({ active: 0, short: 0, long: 0, poms: 0 });
+
+// Seconds and pomodoros per YYYY-MM-DD day key
+export function totalsByDay(sessions: SessionRecord[]): Record<string, DayTotals> {
+  const out: Record<string, DayTotals> = {};
+  sessions.forEach((s) => {
+    const d = out[s.dateKey] || emptyDayTotals();
+    d.active += s.active || 0;
+    d.short += s.short || 0;
+    d.long += s.long || 0;
+    d.poms += s.pomodoros || 0;
+    out[s.dateKey] = d;
+  });
+  return out;
+}
+
+export function totalsByProfile(sessions: SessionRecord[]): Record<string, DayTotals> {
+  const out: Record<string, DayTotals> = {};
+  sessions.forEach((s) => {
+    const p = out[s.profile] || emptyDayTotals();
+    p.active += s.active || 0;
+    p.short += s.short || 0;
+    p.long += s.long || 0;
+    p.poms += s.pomodoros || 0;
+    out[s.profile] = p;
+  });
+  return out;
+}
+
+// Day keys of the `count` days ending with `end` (inclusive), oldest first
+export function lastDayKeys(count: number, end: Date = new Date()): string[] {
+  const keys: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const d = new Date(end.getFullYear(), end.getMonth(), end.getDate() - i);
+    keys.push(getTodayKeyLocal(d));
+  }
+  return keys;
+}
+
+const HEATMAP_WEEKS = 53;
+
+// Days of the Diary heatmap: weeks starting on Sunday, ending with the current week
+export function heatmapDayKeys(today: Date = new Date()): string[] {
+  return lastDayKeys((HEATMAP_WEEKS - 1) * 7 + today.getDay() + 1, today);
+}
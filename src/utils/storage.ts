@@ -0,0 +1,62 @@
+import { STORAGE } from './constants';
+import { normalizeConfig, type SessionConfig } from './sessionEngine';
+
+export type StorageKey = typeof STORAGE[keyof typeof STORAGE];
+
+// Typed access to STORAGE keys. Storage errors (privacy mode, quota) read as the
+// fallback and are ignored on write.
+export function readJson<T>(key: StorageKey, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// null or undefined removes the key
+export function writeJson(key: StorageKey, value: unknown): void {
+  try {
+    if (value == null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function readString(key: StorageKey): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+export function writeString(key: StorageKey, value: string | null): void {
+  try {
+    if (value == null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+// Saved timer profiles in STORAGE.PROFILES, keyed by name
+export type ProfileStore = Record<string, SessionConfig>;
+
+export function readProfiles(): ProfileStore {
+  const raw = readJson<Record<string, unknown>>(STORAGE.PROFILES, {});
+  const store: ProfileStore = {};
+  Object.entries(raw && typeof raw === 'object' ? raw : {}).forEach(([name, v]) => {
+    if (v && typeof v === 'object') store[name] = normalizeConfig(v);
+  });
+  return store;
+}
+
+export const writeProfiles = (profiles: ProfileStore) => writeJson(STORAGE.PROFILES, profiles);
+
+// Timer settings in STORAGE.SETTINGS; null when never saved
+export function readSettings(): SessionConfig | null {
+  const raw = readJson<unknown>(STORAGE.SETTINGS, null);
+  return raw && typeof raw === 'object' ? normalizeConfig(raw) : null;
+}
@@ -0,0 +1,94 @@
+import { STORAGE } from './constants';
+import { SYNCED_STORE, requestResult, withStore } from './db';
+import { deleteDiaryDays, loadDiary, normalizeDiaryEntry, updateDiaryDay, type ProfileTotals } from './diary';
+import { docValues, type FieldValues, type SyncDoc } from './fieldSync';
+import { normalizeConfig } from './sessionEngine';
+import { readProfiles, readSettings, readString, writeJson, writeProfiles, writeString } from './storage';
+
+// What follows the user across devices besides sessions, as documents of plain fields:
+//   settings        timer settings
+//   prefs           theme, sound, voice and haptics
+//   profile:<name>  a saved profile
+//   diary:<day>     a diary day's totals, one field per profile as byProfile.<name>
+// The device's current profile, active task and the diary's _base* counters stay local.
+const PREFS: Record<string, typeof STORAGE[keyof typeof STORAGE]> = {
+  theme: STORAGE.THEME,
+  sound: STORAGE.SOUND,
+  voice: STORAGE.VOICE,
+  voiceVolume: STORAGE.VOICE_VOLUME,
+  haptics: STORAGE.HAPTICS,
+};
+
+const DIARY_FIELDS = ['active', 'brk', 'short', 'long', 'poms', 'elapsed'] as const;
+const BY_PROFILE = 'byProfile.';
+
+export async function readSyncedData(): Promise<Record<string, FieldValues>> {
+  const docs: Record<string, FieldValues> = {};
+  const settings = readSettings();
+  if (settings) docs.settings = { ...settings };
+  const prefs: FieldValues = {};
+  Object.entries(PREFS).forEach(([field, key]) => {
+    const v = readString(key);
+    if (v != null) prefs[field] = v;
+  });
+  if (Object.keys(prefs).length > 0) docs.prefs = prefs;
+  Object.entries(readProfiles()).forEach(([name, config]) => {
+    docs[`profile:${name}`] = { ...config };
+  });
+  Object.entries(await loadDiary()).forEach(([day, raw]) => {
+    const entry = normalizeDiaryEntry(raw);
+    if (!entry) return;
+    const fields: FieldValues = {};
+    DIARY_FIELDS.forEach((f) => { fields[f] = entry[f]; });
+    Object.entries(entry.byProfile).forEach(([name, totals]) => { fields[`${BY_PROFILE}${name}`] = totals; });
+    docs[`diary:${day}`] = fields;
+  });
+  return docs;
+}
+
+// Write merged documents back; a document without values removes the object
+export async function applySyncedData(docs: SyncDoc[]): Promise<void> {
+  const profiles = readProfiles();
+  let profilesChanged = false;
+  const deletedDays: string[] = [];
+  for (const doc of docs) {
+    const values = docValues(doc);
+    if (doc.key === 'settings') {
+      if (values) writeJson(STORAGE.SETTINGS, normalizeConfig(values));
+    } else if (doc.key === 'prefs') {
+      Object.entries(PREFS).forEach(([field, key]) => {
+        const v = values?.[field];
+        writeString(key, typeof v === 'string' ? v : null);
+      });
+    } else if (doc.key.startsWith('profile:')) {
+      const name = doc.key.slice('profile:'.length);
+      if (values) profiles[name] = normalizeConfig(values);
+      else delete profiles[name];
+      profilesChanged = true;
+    } else if (doc.key.startsWith('diary:')) {
+      const day = doc.key.slice('diary:'.length);
+      if (!values) {
+        deletedDays.push(day);
+        continue;
+      }
+      // Keep this device's snapshot counters
+      await updateDiaryDay(day, (prev) => {
+        const byProfile: Record<string, ProfileTotals> = {};
+        Object.entries(values).forEach(([f, v]) => {
+          if (f.startsWith(BY_PROFILE)) byProfile[f.slice(BY_PROFILE.length)] = v as ProfileTotals;
+        });
+        return normalizeDiaryEntry({ ...prev, ...values, byProfile }) ?? prev;
+      });
+    }
+  }
+  if (profilesChanged) writeProfiles(profiles);
+  if (deletedDays.length > 0) await deleteDiaryDays(deletedDays);
+}
+
+// The documents as of the last sync with `scope` (backend and user); null before the first one
+export const loadSyncedDocs = (scope: string): Promise<Record<string, SyncDoc> | null> =>
+  withStore(SYNCED_STORE, 'readonly', async (store) =>
+    (await requestResult(store.get(scope) as IDBRequest<Record<string, SyncDoc> | undefined>)) ?? null);
+
+export const saveSyncedDocs = (scope: string, docs: Record<string, SyncDoc>): Promise<void> =>
+  withStore(SYNCED_STORE, 'readwrite', (store) => { store.put(docs, scope); });
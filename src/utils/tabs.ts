@@ -0,0 +1,70 @@
+import type { InterruptionKind, SessionState } from './sessionEngine';
+
+// Coordination between open Tempo tabs. One tab (the leader) owns the running timer:
+// it ticks, chimes and writes the diary and session history. The others mirror its
+// state and forward their control actions to it.
+const CHANNEL_NAME = 'tempo-tabs';
+const LEADER_LOCK = 'tempo-timer-owner';
+
+// Control actions a follower tab forwards to the leader
+export type TabCommand =
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'skip' }
+  | { type: 'reset' }
+  | { type: 'adjust'; seconds: number }
+  | { type: 'interrupt'; kind: InterruptionKind; note: string; voidPomodoro: boolean }
+  | { type: 'reflect'; startedAt: number; note: string; rating?: number }
+  | { type: 'profile'; name: string }
+  | { type: 'snapshot' }; // commit pending time to the diary
+
+export type TabMessage =
+  | { type: 'hello' } // a tab opened and wants the current state
+  | { type: 'state'; state: SessionState; remoteOwner: string | null } // profile of another device running the timer
+  | { type: 'command'; command: TabCommand }
+  | { type: 'data' }; // stored diary or sessions changed
+
+export type TabSync = {
+  isLeader: () => boolean;
+  post: (msg: TabMessage) => void;
+  close: () => void;
+};
+
+// Join the other tabs. Leadership is a Web Lock held for the tab's lifetime, so the
+// browser hands it to the next waiting tab when the leader closes or crashes.
+// Without BroadcastChannel or Web Locks every tab runs on its own, as before.
+export function joinTabs(handlers: { onLeader: () => void; onMessage: (msg: TabMessage) => void }): TabSync {
+  let leader = false;
+  if (typeof BroadcastChannel === 'undefined' || !navigator.locks) {
+    leader = true;
+    handlers.onLeader();
+    return { isLeader: () => true, post: () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<TabMessage>) => handlers.onMessage(e.data);
+
+  const abort = new AbortController();
+  let release: (() => void) | null = null;
+  navigator.locks
+    .request(LEADER_LOCK, { signal: abort.signal }, () => {
+      leader = true;
+      handlers.onLeader();
+      return new Promise<void>((resolve) => { release = resolve; });
+    })
+    .catch(() => { /* aborted on close */ });
+
+  return {
+    isLeader: () => leader,
+    post: (msg) => {
+      try { channel.postMessage(msg); } catch { /* ignore */ }
+    },
+    close: () => {
+      abort.abort();
+      release?.();
+      channel.close();
+      leader = false;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { STORAGE } from './constants';
+import { readJson, writeJson } from './storage';
+
+export type Task = {
+  id: string;
+  title: string;
+  estimate: number; // estimated pomodoros
+  actual: number;   // completed pomodoros counted against the task
+  done?: boolean;
+  createdAt: number; // epoch ms
+};
+
+export function createTask(title: string, estimate: number, now: number = Date.now()): Task {
+  return {
+    id: `task-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    title: title.trim(),
+    estimate: Math.max(1, Math.round(estimate)),
+    actual: 0,
+    createdAt: now,
+  };
+}
+
+export function isTask(v: unknown): v is Task {
+  if (!v || typeof v !== 'object') return false;
+  const t = v as Record<string, unknown>;
+  return typeof t.id === 'string' && typeof t.title === 'string' && typeof t.estimate === 'number' && typeof t.actual === 'number';
+}
+
+export function readTasks(): Task[] {
+  const arr = readJson<unknown>(STORAGE.TASKS, []);
+  return Array.isArray(arr) ? arr.filter(isTask) : [];
+}
+
+export const writeTasks = (tasks: Task[]) => writeJson(STORAGE.TASKS, tasks);
+
+// Count one completed pomodoro against the task with `id`
+export function countPomodoro(tasks: Task[], id: string): Task[] {
+  return tasks.map((t) => (t.id === id ? { ...t, actual: t.actual + 1 } : t));
+}
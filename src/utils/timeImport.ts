@@ -0,0 +1,248 @@
+import { parseCsv } from './csv';
+import { getTodayKeyLocal } from './dates';
+import { stableSessionId, type SessionRecord } from './sessions';
+
+// Time entry exports from other trackers (Toggl Track, Clockify or a similar CSV)
+export type ImportFormat = 'toggl' | 'clockify' | 'generic';
+
+export type ImportIssue = { line: number; message: string };
+
+// Field order of slash dates: 01/02/2024 is January 2 ('mdy') or 1 February ('dmy')
+export type DateOrder = 'mdy' | 'dmy';
+
+export type ImportedEntry = {
+  line: number;
+  project: string;
+  description: string;
+  startedAt: number;
+  endedAt: number;
+};
+
+export type TimeImport = {
+  format: ImportFormat | null; // null when the file cannot be imported at all
+  entries: ImportedEntry[];
+  projects: string[];        // distinct projects, to map onto profiles
+  unmappedColumns: string[]; // columns present in the file that Tempo does not use
+  errors: ImportIssue[];     // malformed rows, skipped
+  dateOrder: DateOrder | null; // how slash dates were read; null when nothing settled it
+  ambiguousDates: boolean;   // rows skipped because their slash dates read either way
+};
+
+type Role = 'project' | 'client' | 'description' | 'task' | 'startDate' | 'startTime' | 'endDate' | 'endTime'
+  | 'start' | 'end' | 'duration' | 'durationDecimal';
+
+// Header names (lowercase) used by Toggl and Clockify detailed reports
+const COLUMN_ROLES: Record<string, Role> = {
+  'project': 'project',
+  'client': 'client',
+  'description': 'description',
+  'task': 'task',
+  'start date': 'startDate',
+  'start time': 'startTime',
+  'end date': 'endDate',
+  'end time': 'endTime',
+  'start': 'start',
+  'end': 'end',
+  'duration': 'duration',
+  'duration (h)': 'duration',
+  'duration (decimal)': 'durationDecimal',
+};
+
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})/;
+
+// Slash dates that read as a valid day either way, e.g. 03/04/2024 but not 04/04/2024
+const isAmbiguousDate = (value: string): boolean => {
+  const m = SLASH_DATE.exec(value.trim());
+  return !!m && m[1] !== m[2] && Number(m[1]) <= 12 && Number(m[2]) <= 12;
+};
+
+// A first field over 12 can only be a day, a second one only a month. null when no date
+// in the file settles the order, or when its dates disagree.
+const detectDateOrder = (values: string[]): DateOrder | null => {
+  let dmy = false;
+  let mdy = false;
+  values.forEach((v) => {
+    const m = SLASH_DATE.exec(v.trim());
+    if (!m) return;
+    if (Number(m[1]) > 12) dmy = true;
+    if (Number(m[2]) > 12) mdy = true;
+  });
+  return dmy === mdy ? null : dmy ? 'dmy' : 'mdy';
+};
+
+// 2024-01-31, 01/31/2024 or 31/01/2024 (per `order`), 31.01.2024. Without an order only
+// slash dates that read one way are accepted.
+const parseDate = (value: string, order: DateOrder | null): [number, number, number] | null => {
+  const v = value.trim();
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(v);
+  if (m) return [Number(m[1]), Number(m[2]), Number(m[3])];
+  m = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(v);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    if (!order && isAmbiguousDate(v)) return null;
+    return order === 'dmy' || (!order && a > 12) ? [Number(m[3]), b, a] : [Number(m[3]), a, b];
+  }
+  m = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(v);
+  if (m) return [Number(m[3]), Number(m[2]), Number(m[1])];
+  return null;
+};
+
+// 09:05, 09:05:30, 9:05 AM, 09:05:30 PM; returns [hours, minutes, seconds]
+const parseTime = (value: string): [number, number, number] | null => {
+  const m = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/.exec(value.trim());
+  if (!m) return null;
+  let h = Number(m[1]);
+  const min = Number(m[2]);
+  const sec = Number(m[3] ?? 0);
+  if (m[4]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[4].toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (h > 23 || min > 59 || sec > 59) return null;
+  return [h, min, sec];
+};
+
+// Local timestamp from a date and a time of day, `addDays` later. Built from the parts, so
+// days when the clocks change keep the wall-clock time.
+const localTimestamp = (date: string, time: string, order: DateOrder | null, addDays = 0): number | null => {
+  const d = parseDate(date, order);
+  const t = parseTime(time);
+  if (!d || !t) return null;
+  const [y, mo, day] = d;
+  const check = new Date(y, mo - 1, day);
+  if (check.getMonth() !== mo - 1 || check.getDate() !== day) return null;
+  return new Date(y, mo - 1, day + addDays, ...t).getTime();
+};
+
+// Combined date and time: "2024-01-31 09:05:00", or ISO 8601 with an offset
+const parseDateTime = (value: string, order: DateOrder | null): number | null => {
+  const m = /^(\S+)[ T](.+)$/.exec(value.trim());
+  const local = m ? localTimestamp(m[1], m[2], order) : null;
+  if (local != null) return local;
+  const iso = /^\d{4}-\d{2}-\d{2}T/.test(value.trim()) ? Date.parse(value.trim()) : NaN;
+  return Number.isFinite(iso) ? iso : null;
+};
+
+// "1:25:00", "01:25" or decimal hours ("1.42"); returns seconds
+const parseDuration = (value: string, decimal: boolean): number | null => {
+  const v = value.trim();
+  if (!v) return null;
+  if (decimal || /^\d+([.,]\d+)?$/.test(v)) {
+    const h = Number(v.replace(',', '.'));
+    return Number.isFinite(h) ? Math.round(h * 3600) : null;
+  }
+  const m = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(v);
+  return m ? Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3] ?? 0) : null;
+};
+
+const detectFormat = (headers: string[]): ImportFormat => {
+  if (headers.includes('duration (h)') || headers.includes('duration (decimal)')) return 'clockify';
+  if (headers.includes('start date') && headers.includes('duration') && headers.includes('email')) return 'toggl';
+  return 'generic';
+};
+
+// `dateOrder` overrides the order of slash dates worked out from the file
+export function parseTimeEntries(text: string, dateOrder?: DateOrder): TimeImport {
+  const rows = parseCsv(text);
+  const empty = (message: string): TimeImport => ({
+    format: null, entries: [], projects: [], unmappedColumns: [], errors: [{ line: 1, message }], dateOrder: null, ambiguousDates: false,
+  });
+  if (rows.length === 0) return empty('The file is empty');
+
+  const header = rows[0].fields.map((h) => h.trim());
+  const headers = header.map((h) => h.toLowerCase());
+  const col: Partial<Record<Role, number>> = {};
+  const unmappedColumns: string[] = [];
+  headers.forEach((h, i) => {
+    const role = COLUMN_ROLES[h];
+    if (role && col[role] === undefined) col[role] = i;
+    else if (header[i]) unmappedColumns.push(header[i]);
+  });
+
+  const hasStart = col.start !== undefined || (col.startDate !== undefined && col.startTime !== undefined);
+  const hasEnd = col.end !== undefined || col.endTime !== undefined || col.duration !== undefined || col.durationDecimal !== undefined;
+  if (!hasStart || !hasEnd) return empty('Unrecognized format: expected start date/time and end time or duration columns');
+
+  const format = detectFormat(headers);
+  const entries: ImportedEntry[] = [];
+  const errors: ImportIssue[] = [];
+  const projects = new Set<string>();
+  const dateRoles: Role[] = ['startDate', 'endDate', 'start', 'end'];
+  const dateColumns = dateRoles.map((role) => col[role]).filter((i): i is number => i !== undefined);
+  const order = dateOrder ?? detectDateOrder(rows.slice(1).flatMap(({ fields }) => dateColumns.map((i) => fields[i] ?? '')));
+  let ambiguousDates = false;
+
+  rows.slice(1).forEach(({ line, fields }) => {
+    const get = (role: Role) => (col[role] !== undefined ? (fields[col[role]!] ?? '').trim() : '');
+    if (fields.length !== header.length) {
+      errors.push({ line, message: `Expected ${header.length} fields, found ${fields.length}` });
+      return;
+    }
+    if (!order && dateRoles.some((role) => isAmbiguousDate(get(role)))) {
+      ambiguousDates = true;
+      errors.push({ line, message: 'Ambiguous date: the file does not show whether it is month/day or day/month' });
+      return;
+    }
+    const startedAt = col.start !== undefined ? parseDateTime(get('start'), order) : localTimestamp(get('startDate'), get('startTime'), order);
+    if (startedAt == null) {
+      errors.push({ line, message: 'Invalid start date or time' });
+      return;
+    }
+
+    let endedAt: number | null = null;
+    if (col.end !== undefined && get('end')) {
+      endedAt = parseDateTime(get('end'), order);
+    } else if (col.endTime !== undefined && get('endTime')) {
+      const endDate = get('endDate') || get('startDate');
+      endedAt = endDate ? localTimestamp(endDate, get('endTime'), order) : null;
+      // Without an end date, an end time before the start means the entry crossed midnight
+      if (endedAt != null && !get('endDate') && endedAt < startedAt) endedAt = localTimestamp(endDate, get('endTime'), order, 1);
+    } else {
+      const seconds = col.duration !== undefined && get('duration')
+        ? parseDuration(get('duration'), false)
+        : parseDuration(get('durationDecimal'), true);
+      endedAt = seconds == null ? null : startedAt + seconds * 1000;
+    }
+    if (endedAt == null) {
+      errors.push({ line, message: 'Invalid end time or duration' });
+      return;
+    }
+    if (endedAt <= startedAt) {
+      errors.push({ line, message: 'Entry ends before it starts' });
+      return;
+    }
+
+    const project = get('project') || get('client');
+    const description = [get('task'), get('description')].filter(Boolean).join(' · ');
+    projects.add(project);
+    entries.push({ line, project, description, startedAt, endedAt });
+  });
+
+  return { format, entries, projects: Array.from(projects).sort(), unmappedColumns, errors, dateOrder: order, ambiguousDates };
+}
+
+// Stable id so importing the same file twice does not duplicate sessions
+const entryId = (format: ImportFormat, e: ImportedEntry): string =>
+  stableSessionId(`import-${format}-${e.startedAt}-${e.endedAt}\u0000${e.project}\u0000${e.description}`);
+
+// Imported entries count as active time only; other trackers do not record breaks or pomodoros.
+// `profileFor` maps a project name (possibly empty) to a Tempo profile.
+export function toSessionRecords(result: TimeImport, profileFor: (project: string) => string): SessionRecord[] {
+  const format = result.format ?? 'generic';
+  return result.entries.map((e) => ({
+    id: entryId(format, e),
+    dateKey: getTodayKeyLocal(new Date(e.startedAt)),
+    profile: profileFor(e.project),
+    active: Math.round((e.endedAt - e.startedAt) / 1000),
+    break: 0,
+    short: 0,
+    long: 0,
+    pomodoros: 0,
+    startedAt: e.startedAt,
+    endedAt: e.endedAt,
+    mode: 'workday',
+    source: 'imported',
+    updatedAt: e.endedAt,
+  }));
+}